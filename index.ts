@@ -1,20 +1,104 @@
-import { Plugin, PluginEvent, PluginMeta, Properties, RetryError } from '@posthog/plugin-scaffold'
+import { Plugin, PluginEvent, PluginMeta, PostHogExtension, Properties, RetryError } from '@posthog/plugin-scaffold'
+import { S3 } from 'aws-sdk'
 import crypto from 'crypto'
 import fetch, { RequestInit, Response } from 'node-fetch'
+import { inflateRawSync } from 'zlib'
 
+// NOTE: `posthog` is injected as a global by the plugin server
+declare const posthog: PostHogExtension
 
+// NOTE: `logErrors` is off for requests whose 4xx errors are expected, e.g. the API key permission probes
 export type FetchBraze = (
     endpoint: string,
     options: Partial<RequestInit>,
     method: string,
-    requestId?: string
+    requestId?: string,
+    logErrors?: boolean
 ) => Promise<Record<string, unknown> | null>
 
 type BooleanChoice = 'Yes' | 'No'
 
+export type NameMatcher = (name: string) => boolean
+
+export type RequestScheduler = {
+    schedule: <T>(request: () => Promise<T>) => Promise<T>
+    updateRateLimit: (headers: Response['headers']) => void
+}
+
+type LRUCache<T> = {
+    get: (key: string) => T | undefined
+    set: (key: string, value: T) => void
+}
+
+// Hashes of the attribute values last sent to Braze for a user, and when all of them were last sent.
+type AttributeFingerprints = {
+    syncedAt: number
+    hashes: Record<string, string>
+}
+
+type PropertyChange = {
+    property: string
+    change: 'removed' | 'flattened' | 'stringified' | 'truncated' | 'converted_date' | 'dropped_payload_size'
+}
+
+type PropertyType = 'string' | 'number' | 'boolean' | 'date' | 'phone'
+
+// A PostHog property is renamed to `name` and coerced to `type` before being sent to Braze.
+type PropertyMappingRule = { name?: string; type?: PropertyType }
+
+export type PropertyMapping = {
+    attributes: Record<string, PropertyMappingRule> // $set keys
+    events: Record<string, PropertyMappingRule> // event properties
+    eventPropertiesToAttributes: Record<string, PropertyMappingRule> // event properties sent as user attributes
+}
+
+// NOTE: Reference: https://www.braze.com/docs/user_guide/message_building_by_channel/email/managing_user_subscriptions/
+type BrazeSubscriptionState = 'opted_in' | 'subscribed' | 'unsubscribed'
+
+// The PostHog person properties holding the subscription states of a user, for the global email and push
+// subscriptions and for subscription groups (by subscription group id).
+export type SubscriptionMapping = {
+    email_subscribe?: string
+    push_subscribe?: string
+    subscription_groups: Record<string, string>
+}
+
+// Events whose properties all match a route are exported with its `app_id`, and to another Braze workspace
+// when the route has an endpoint, a REST URL or an API key.
+export type ExportRoute = {
+    name: string
+    match: Record<string, NameMatcher>
+    app_id?: string
+    endpoint?: string
+    rest_url?: string
+    api_key?: string
+}
+
+// NOTE: a user has a profile in every workspace, so each workspace keeps its own per-user state
+type BrazeWorkspace = {
+    name: string
+    fetchBraze: FetchBraze
+    attributeFingerprints: LRUCache<AttributeFingerprints>
+}
+
 type BrazePlugin = Plugin<{
     global: {
         fetchBraze: FetchBraze
+        requestScheduler: RequestScheduler
+        shouldExportEvent: NameMatcher
+        shouldExportUserProperty: NameMatcher
+        shouldExportPurchase: NameMatcher
+        propertyMapping: PropertyMapping
+        attributeFingerprints: LRUCache<AttributeFingerprints>
+        shouldExportDollarProperty: NameMatcher
+        subscriptionMapping: SubscriptionMapping
+        currentsS3: S3 | null
+        exportRoutes: Array<ExportRoute & { workspace: BrazeWorkspace | null }>
+    }
+    jobs: {
+        backfillImports: Record<string, never>
+        replayDeadLetters: Record<string, never>
+        previewExport: { events: PluginEvent[] | string }
     }
     config: {
         brazeEndpoint: 'US-01' | 'US-02' | 'US-03' | 'US-04' | 'US-05' | 'US-06' | 'US-08' | 'EU-01' | 'EU-02'
@@ -26,9 +110,43 @@ type BrazePlugin = Plugin<{
         importKPIs: BooleanChoice
         importSegments: BooleanChoice
         importSessions: BooleanChoice
+        kpiAppIds: string
+        backfillStartDate: string
         eventsToExport: string
         userPropertiesToExport: string
         importUserAttributesInAllEvents: BooleanChoice
+        userAliasLabel: string
+        externalIdPersonProperty: string
+        purchaseEventsToExport: string
+        purchaseProductIdProperty: string
+        purchasePriceProperty: string
+        purchaseCurrencyProperty: string
+        purchaseQuantityProperty: string
+        propertyMapping: string
+        deadLetterEvents: BooleanChoice
+        deadLetterMaxAgeDays: string
+        deadLetterMaxSize: string
+        onlySendChangedAttributes: BooleanChoice
+        attributesResyncDays: string
+        forwardPersonChanges: BooleanChoice
+        sanitizeProperties: BooleanChoice
+        dollarPropertiesToExport: string
+        enrichGeoAndDeviceAttributes: BooleanChoice
+        subscriptionMapping: string
+        currentsS3Bucket: string
+        currentsS3Prefix: string
+        currentsS3Region: string
+        currentsS3Endpoint: string
+        currentsAwsAccessKeyId: string
+        currentsAwsSecretAccessKey: string
+        importBrazeProfiles: BooleanChoice
+        brazeProfileFields: string
+        brazeProfilePropertyPrefix: string
+        dryRun: BooleanChoice
+        brazeRestUrl: string
+        checkApiKeyPermissions: BooleanChoice
+        exportRoutes: string
+        exportRouteApiKeys: string
     }
 }>
 
@@ -47,38 +165,94 @@ const ENDPOINTS_MAP = {
     'EU-02': 'https://rest.fra-02.braze.eu',
 }
 
-export async function setupPlugin({ config, global }: BrazeMeta): Promise<void> {
-    const brazeUrl = ENDPOINTS_MAP[config.brazeEndpoint]
-    // we define a global fetch function that handles authentication and API errors
-    global.fetchBraze = async (endpoint, options = {}, method = 'GET', requestId = '') => {
+// Returns the Braze REST URL of an endpoint identifier. A custom URL, e.g. of a new Braze cluster or of a local
+// stand-in, takes precedence over the endpoint identifier.
+function getBrazeUrl(brazeEndpoint: string, brazeRestUrl?: string): string {
+    if (brazeRestUrl) {
+        let url: URL | null = null
+        try {
+            url = new URL(brazeRestUrl)
+        } catch (error) {
+            url = null
+        }
+        if (!url || !['http:', 'https:'].includes(url.protocol)) {
+            throw new Error(`Invalid Braze REST URL: ${brazeRestUrl}, it should be an http(s) URL.`)
+        }
+        return brazeRestUrl.replace(/\/+$/, '')
+    }
+
+    if (!(brazeEndpoint in ENDPOINTS_MAP)) {
+        throw new Error(
+            `Unknown Braze REST endpoint: ${brazeEndpoint}. Set the Braze REST URL for clusters that aren't listed.`
+        )
+    }
+    return ENDPOINTS_MAP[brazeEndpoint as keyof typeof ENDPOINTS_MAP]
+}
+
+// Thrown by `fetchBraze` for 4xx responses, which are not retried since they would fail again
+// until the request or the API key permissions are fixed.
+export class BrazeRequestError extends Error {
+    status: number
+    response: Record<string, unknown> | null
+
+    constructor(status: number, response: Record<string, unknown> | null, requestId: string) {
+        super(`Braze API error ${status}: ${response?.['message'] ?? 'unknown error'}. Request ID: ${requestId}`)
+        this.name = 'BrazeRequestError'
+        this.status = status
+        this.response = response
+    }
+}
+
+// Creates a fetch function for a Braze workspace that handles authentication, rate limits and API errors.
+function createFetchBraze(brazeUrl: string, apiKey: string, requestScheduler: RequestScheduler): FetchBraze {
+    return async (endpoint, options = {}, method = 'GET', requestId = '', logErrors = true) => {
         const headers = {
             Accept: 'application/json',
             'Content-Type': 'application/json',
-            Authorization: `Bearer ${config.apiKey}`,
+            Authorization: `Bearer ${apiKey}`,
         }
 
         let response: Response | undefined
 
-        const startTime = Date.now()
+        for (let attempt = 0; ; attempt++) {
+            response = await requestScheduler.schedule(async () => {
+                const startTime = Date.now()
 
-        try {
-            response = await fetch(`${brazeUrl}${endpoint}`, {
-                method,
-                headers,
-                ...options,
-                timeout: 5000,
+                try {
+                    return await fetch(`${brazeUrl}${endpoint}`, {
+                        method,
+                        headers,
+                        ...options,
+                        timeout: 5000,
+                    })
+                } catch (e) {
+                    console.error(e, endpoint, options.body, requestId)
+                    throw new RetryError('Fetch failed, retrying.')
+                } finally {
+                    const elapsedTime = (Date.now() - startTime) / 1000
+                    if (elapsedTime >= 5) {
+                        console.warn(
+                            `🐢 Slow request warning. Fetch took ${elapsedTime} seconds. Request ID: ${requestId}`,
+                            endpoint
+                        )
+                    }
+                }
             })
-        } catch (e) {
-            console.error(e, endpoint, options.body, requestId)
-            throw new RetryError('Fetch failed, retrying.')
-        } finally {
-            const elapsedTime = (Date.now() - startTime) / 1000
-            if (elapsedTime >= 5) {
-                console.warn(
-                    `🐢 Slow request warning. Fetch took ${elapsedTime} seconds. Request ID: ${requestId}`,
-                    endpoint
-                )
+
+            requestScheduler.updateRateLimit(response.headers)
+
+            if (response.status !== 429) {
+                break
+            }
+
+            // NOTE: rate limited requests are retried in place when Braze asks to wait a short time,
+            // otherwise the whole export is retried later
+            const retryAfterMs = getRetryAfterMs(response.headers)
+            if (attempt >= MAX_RATE_LIMIT_RETRIES || retryAfterMs > MAX_RATE_LIMIT_WAIT_MS) {
+                throw new RetryError(`Rate limited by Braze, retry later. Request ID: ${requestId}`)
             }
+            console.warn(`Rate limited by Braze, retrying in ${retryAfterMs / 1000} seconds. Request ID: ${requestId}`)
+            await sleep(retryAfterMs)
         }
 
         if (String(response.status)[0] === '5') {
@@ -93,6 +267,13 @@ export async function setupPlugin({ config, global }: BrazeMeta): Promise<void>
             console.error('Error parsing Braze response as JSON: ', e, endpoint, options.body, requestId)
         }
 
+        if (String(response.status)[0] === '4') {
+            if (logErrors) {
+                console.error('Braze API error (not retried): ', responseJson, endpoint, options.body, requestId)
+            }
+            throw new BrazeRequestError(response.status, responseJson, requestId)
+        }
+
         if (responseJson?.['errors']) {
             console.error('Braze API error (not retried): ', responseJson, endpoint, options.body, requestId)
         }
@@ -100,6 +281,467 @@ export async function setupPlugin({ config, global }: BrazeMeta): Promise<void>
     }
 }
 
+export async function setupPlugin(meta: BrazeMeta): Promise<void> {
+    const { config, global, jobs, storage } = meta
+    const brazeUrl = getBrazeUrl(config.brazeEndpoint, config.brazeRestUrl)
+    if (!config.apiKey) {
+        throw new Error('Missing Braze API key.')
+    }
+
+    // NOTE: the export lists are parsed once here instead of for every exported event
+    global.shouldExportEvent = parseNameList(config.eventsToExport)
+    global.shouldExportUserProperty = parseNameList(config.userPropertiesToExport)
+    global.shouldExportPurchase = parseNameList(config.purchaseEventsToExport)
+    global.shouldExportDollarProperty = parseNameList(config.dollarPropertiesToExport)
+    global.propertyMapping = parsePropertyMapping(config.propertyMapping)
+    global.subscriptionMapping = parseSubscriptionMapping(config.subscriptionMapping)
+
+    global.requestScheduler = createRequestScheduler(MAX_CONCURRENT_REQUESTS)
+    global.attributeFingerprints = createLRUCache(MAX_CACHED_FINGERPRINTS)
+
+    // NOTE: a custom endpoint allows S3 compatible storages, which usually need path style URLs
+    global.currentsS3 = config.currentsS3Bucket
+        ? new S3({
+              accessKeyId: config.currentsAwsAccessKeyId,
+              secretAccessKey: config.currentsAwsSecretAccessKey,
+              region: config.currentsS3Region || 'us-east-1',
+              ...(config.currentsS3Endpoint ? { endpoint: config.currentsS3Endpoint, s3ForcePathStyle: true } : {}),
+          })
+        : null
+
+    // we define a global fetch function that handles authentication, rate limits and API errors
+    global.fetchBraze = createFetchBraze(brazeUrl, config.apiKey, global.requestScheduler)
+
+    // NOTE: routes to another workspace have their own API key, and so their own rate limits
+    global.exportRoutes = parseExportRoutes(config.exportRoutes, config.exportRouteApiKeys).map((route) => ({
+        ...route,
+        workspace:
+            route.endpoint || route.rest_url || route.api_key
+                ? {
+                      name: route.name,
+                      fetchBraze: createFetchBraze(
+                          route.endpoint || route.rest_url
+                              ? getBrazeUrl(route.endpoint ?? '', route.rest_url)
+                              : brazeUrl,
+                          route.api_key || config.apiKey,
+                          createRequestScheduler(MAX_CONCURRENT_REQUESTS)
+                      ),
+                      attributeFingerprints: createLRUCache(MAX_CACHED_FINGERPRINTS),
+                  }
+                : null,
+    }))
+
+    if (config.checkApiKeyPermissions === 'Yes') {
+        await checkApiKeyPermissions(meta)
+    }
+
+    // NOTE: the backfill resumes from its stored cursor. The setup runs on every worker and reload, so the
+    // backfill is only started when no other backfill holds its lock.
+    if (config.backfillStartDate) {
+        const backfill = await storage.get(getBackfillStorageKey(config.backfillStartDate), null)
+        if (backfill !== BACKFILL_DONE && (await acquireBackfillLock(meta))) {
+            await jobs.backfillImports({}).runNow()
+        }
+    }
+
+    // NOTE: a new config (e.g. a fixed property mapping) is a good time to replay the events that failed before
+    if (config.deadLetterEvents === 'Yes') {
+        const deadLetters = await storage.get(DEAD_LETTERS_STORAGE_KEY, [])
+        if (Array.isArray(deadLetters) && deadLetters.length) {
+            await jobs.replayDeadLetters({}).runNow()
+        }
+    }
+}
+
+// NOTE: Braze rate limits are per API key and endpoint, see https://www.braze.com/docs/api/api_limits/
+const MAX_CONCURRENT_REQUESTS = 10
+const MAX_RATE_LIMIT_RETRIES = 3
+const MAX_RATE_LIMIT_WAIT_MS = 10000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Parses the `Retry-After` header, either a number of seconds or an HTTP date.
+function getRetryAfterMs(headers: Response['headers']): number {
+    const retryAfter = headers.get('retry-after')
+    if (!retryAfter) {
+        return 1000
+    }
+    const seconds = Number(retryAfter)
+    const retryAfterMs = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000
+    return isNaN(retryAfterMs) ? 1000 : Math.max(0, retryAfterMs)
+}
+
+// Limits the number of in-flight requests to Braze, and holds requests back once the rate limit
+// reported by the `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers is reached.
+export function createRequestScheduler(maxConcurrentRequests: number): RequestScheduler {
+    let inFlight = 0
+    const queue: Array<() => void> = []
+    let remaining: number | null = null
+    let resetAt = 0
+
+    const acquire = (): Promise<void> => {
+        if (inFlight < maxConcurrentRequests) {
+            inFlight++
+            return Promise.resolve()
+        }
+        return new Promise((resolve) => queue.push(resolve))
+    }
+
+    const release = () => {
+        const next = queue.shift()
+        if (next) {
+            // NOTE: the slot is handed over to the next request
+            next()
+        } else {
+            inFlight--
+        }
+    }
+
+    return {
+        schedule: async (request) => {
+            await acquire()
+            try {
+                if (remaining !== null && remaining <= 0) {
+                    const waitMs = resetAt - Date.now()
+                    if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+                        throw new RetryError('Braze rate limit reached, retry later.')
+                    }
+                    if (waitMs > 0) {
+                        await sleep(waitMs)
+                    }
+                    remaining = null
+                }
+                if (remaining !== null) {
+                    remaining--
+                }
+                return await request()
+            } finally {
+                release()
+            }
+        },
+        updateRateLimit: (headers) => {
+            const remainingHeader = headers.get('x-ratelimit-remaining')
+            const resetHeader = headers.get('x-ratelimit-reset')
+            if (remainingHeader !== null && resetHeader !== null) {
+                remaining = Number(remainingHeader)
+                resetAt = Number(resetHeader) * 1000 // NOTE: Unix timestamp in seconds
+            }
+        },
+    }
+}
+
+// A bounded cache evicting the least recently used key, relying on the insertion order of `Map`.
+export function createLRUCache<T>(maxSize: number): LRUCache<T> {
+    const cache = new Map<string, T>()
+
+    return {
+        get: (key) => {
+            const value = cache.get(key)
+            if (value !== undefined) {
+                cache.delete(key)
+                cache.set(key, value)
+            }
+            return value
+        },
+        set: (key, value) => {
+            cache.delete(key)
+            cache.set(key, value)
+            if (cache.size > maxSize) {
+                cache.delete(cache.keys().next().value)
+            }
+        },
+    }
+}
+
+// Converts a single pattern of a name list to a regular expression. Patterns are either
+// a regular expression between slashes (e.g. `/^checkout_/i`) or a glob (e.g. `checkout_*`).
+function parseNamePattern(pattern: string): RegExp {
+    const regexMatch = pattern.match(/^\/(.*)\/([a-z]*)$/)
+    if (regexMatch) {
+        try {
+            return new RegExp(regexMatch[1], regexMatch[2])
+        } catch (e) {
+            throw new Error(`Invalid regular expression in export list: ${pattern}`)
+        }
+    }
+
+    const escaped = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.')
+    return new RegExp(`^${escaped}$`)
+}
+
+// Parses a comma separated allow/deny list of names, e.g. `*,!$pageview`. A name matches
+// if it matches any of the patterns and none of the exclusions (patterns starting with `!`).
+export function parseNameList(list: string | undefined): NameMatcher {
+    const patterns = (list ?? '')
+        .split(',')
+        .map((pattern) => pattern.trim())
+        .filter(Boolean)
+
+    const inclusions = patterns.filter((pattern) => !pattern.startsWith('!')).map(parseNamePattern)
+    const exclusions = patterns
+        .filter((pattern) => pattern.startsWith('!'))
+        .map((pattern) => parseNamePattern(pattern.slice(1).trim()))
+
+    return (name) => inclusions.some((regex) => regex.test(name)) && !exclusions.some((regex) => regex.test(name))
+}
+
+const PROPERTY_TYPES: PropertyType[] = ['string', 'number', 'boolean', 'date', 'phone']
+
+// Parses the `propertyMapping` JSON config. Each section maps a PostHog property either to
+// a Braze name (e.g. `{ "$email": "email" }`) or to a rule (e.g. `{ "signup": { "name": "signed_up_at", "type": "date" } }`).
+export function parsePropertyMapping(json: string | Record<string, unknown> | undefined): PropertyMapping {
+    const mapping: PropertyMapping = { attributes: {}, events: {}, eventPropertiesToAttributes: {} }
+    if (!json) {
+        return mapping
+    }
+
+    let parsed: Record<string, unknown>
+    try {
+        parsed = typeof json === 'string' ? JSON.parse(json) : json
+    } catch (e) {
+        throw new Error('Invalid property mapping, it should be a JSON object.')
+    }
+
+    for (const section of Object.keys(mapping) as Array<keyof PropertyMapping>) {
+        const rules = (parsed[section] ?? {}) as Record<string, string | PropertyMappingRule>
+        for (const [key, rule] of Object.entries(rules)) {
+            const { name, type } = typeof rule === 'string' ? { name: rule, type: undefined } : rule
+            if (type && !PROPERTY_TYPES.includes(type)) {
+                throw new Error(`Invalid property mapping type for ${key}: ${type}`)
+            }
+            mapping[section][key] = { name, type }
+        }
+    }
+    return mapping
+}
+
+// Parses the `subscriptionMapping` JSON config, e.g.
+// `{ "email_subscribe": "marketing_opt_in", "subscription_groups": { "<subscription group id>": "sms_opt_in" } }`.
+export function parseSubscriptionMapping(json: string | Record<string, unknown> | undefined): SubscriptionMapping {
+    const mapping: SubscriptionMapping = { subscription_groups: {} }
+    if (!json) {
+        return mapping
+    }
+
+    let parsed: Record<string, unknown>
+    try {
+        parsed = typeof json === 'string' ? JSON.parse(json) : json
+    } catch (e) {
+        throw new Error('Invalid subscription mapping, it should be a JSON object.')
+    }
+
+    for (const key of ['email_subscribe', 'push_subscribe'] as const) {
+        if (parsed[key] !== undefined && typeof parsed[key] !== 'string') {
+            throw new Error(`Invalid subscription mapping for ${key}, it should be a property name.`)
+        }
+        mapping[key] = parsed[key] as string | undefined
+    }
+    for (const [groupId, property] of Object.entries((parsed.subscription_groups ?? {}) as Record<string, unknown>)) {
+        if (typeof property !== 'string') {
+            throw new Error(
+                `Invalid subscription mapping for subscription group ${groupId}, it should be a property name.`
+            )
+        }
+        mapping.subscription_groups[groupId] = property
+    }
+    return mapping
+}
+
+// Parses the `exportRoutes` JSON config, e.g.
+// `[{ "name": "ios", "match": { "$lib": "posthog-ios" }, "app_id": "<app id>" }, { "name": "acme", "match": ... }]`.
+// Each `match` value is a list of patterns as in `parseNameList`. The API keys of the routes come from the secret
+// `exportRouteApiKeys` JSON config, e.g. `{ "acme": "<api key>" }`.
+export function parseExportRoutes(
+    json: string | unknown[] | undefined,
+    apiKeysJson: string | Record<string, unknown> | undefined
+): ExportRoute[] {
+    let parsed: unknown
+    let apiKeys: Record<string, unknown>
+    try {
+        parsed = typeof json === 'string' ? JSON.parse(json) : json ?? []
+    } catch (e) {
+        throw new Error('Invalid export routes, they should be a JSON array.')
+    }
+    try {
+        apiKeys = typeof apiKeysJson === 'string' ? JSON.parse(apiKeysJson) : apiKeysJson ?? {}
+    } catch (e) {
+        throw new Error('Invalid export route API keys, they should be a JSON object.')
+    }
+    if (!Array.isArray(parsed)) {
+        throw new Error('Invalid export routes, they should be a JSON array.')
+    }
+
+    const routes = parsed.map((route, idx): ExportRoute => {
+        const { name, match, app_id, endpoint, rest_url } = (route ?? {}) as Record<string, unknown>
+        if (typeof name !== 'string' || !name) {
+            throw new Error(`Invalid export route ${idx}, it should have a name.`)
+        }
+        if (typeof match !== 'object' || match === null || !Object.keys(match).length) {
+            throw new Error(`Invalid export route ${name}, its match should be an object of property patterns.`)
+        }
+        for (const [key, value] of Object.entries({ app_id, endpoint, rest_url, api_key: apiKeys[name] })) {
+            if (value !== undefined && typeof value !== 'string') {
+                throw new Error(`Invalid export route ${name}, its ${key} should be a string.`)
+            }
+        }
+        return {
+            name,
+            match: Object.fromEntries(
+                Object.entries(match).map(([property, patterns]) => [property, parseNameList(String(patterns))])
+            ),
+            app_id: app_id as string | undefined,
+            endpoint: endpoint as string | undefined,
+            rest_url: rest_url as string | undefined,
+            api_key: apiKeys[name] as string | undefined,
+        }
+    })
+
+    const names = routes.map(({ name }) => name)
+    const duplicatedName = names.find((name, idx) => names.indexOf(name) !== idx)
+    if (duplicatedName) {
+        throw new Error(`Invalid export routes, the name ${duplicatedName} is used by several routes.`)
+    }
+    const unknownName = Object.keys(apiKeys).find((name) => !names.includes(name))
+    if (unknownName) {
+        throw new Error(`Invalid export route API keys, there is no route named ${unknownName}.`)
+    }
+    return routes
+}
+
+// Converts a consent property (e.g. `true`, `"no"` or `"opted_in"`) to a Braze subscription state.
+function getSubscriptionState(value: unknown): BrazeSubscriptionState | null {
+    if (value === 'opted_in' || value === 'subscribed' || value === 'unsubscribed') {
+        return value
+    }
+    const consent = coercePropertyValue(value, 'boolean', 'subscription')
+    if (typeof consent !== 'boolean') {
+        return null
+    }
+    return consent ? 'opted_in' : 'unsubscribed'
+}
+
+// Coerces a property value to a Braze compatible value. Values that can't be coerced are sent unchanged.
+export function coercePropertyValue(value: unknown, type: PropertyType, name: string): unknown {
+    switch (type) {
+        case 'string':
+            return value === null || value === undefined ? value : String(value)
+        case 'number': {
+            const number = typeof value === 'number' ? value : parseFloat(String(value))
+            return isNaN(number) ? value : number
+        }
+        case 'boolean': {
+            const normalized = String(value).trim().toLowerCase()
+            if (['true', 'yes', '1'].includes(normalized)) {
+                return true
+            }
+            return ['false', 'no', '0'].includes(normalized) ? false : value
+        }
+        case 'date': {
+            const date = typeof value === 'number' || typeof value === 'string' ? new Date(value) : null
+            if (!date || isNaN(date.getTime())) {
+                return value
+            }
+            // NOTE: the `dob` standard attribute only accepts a YYYY-MM-DD date
+            return name === 'dob' ? date.toISOString().slice(0, 10) : date.toISOString()
+        }
+        case 'phone': {
+            // NOTE: Braze expects phone numbers in the E.164 format, e.g. +15551234567
+            const phone = String(value).trim()
+            const digits = phone.replace(/\D/g, '')
+            if (!digits) {
+                return value
+            }
+            return phone.startsWith('+') ? `+${digits}` : digits.startsWith('00') ? `+${digits.slice(2)}` : digits
+        }
+    }
+}
+
+// Renames and coerces the properties that have a rule in the mapping, other properties are kept as they are.
+function applyPropertyMapping(properties: Properties, rules: Record<string, PropertyMappingRule>): Properties {
+    return Object.entries(properties).reduce((mapped, [key, value]) => {
+        const { name = key, type } = rules[key] ?? {}
+        // NOTE: null values remove the attribute in Braze, so they are never coerced
+        mapped[name] = type && value !== null ? coercePropertyValue(value, type, name) : value
+        return mapped
+    }, {} as Properties)
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/objects_filters/event_object/#event-properties-object
+const MAX_PROPERTY_STRING_LENGTH = 255
+const MAX_PROPERTIES_PAYLOAD_BYTES = 50 * 1024
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/
+const ISO_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Makes properties fit Braze limits, and returns every change made to them:
+// - `$` properties are removed unless `shouldKeepDollarProperty` matches them, as Braze rejects them in events
+// - nested objects are flattened to `parent.child` keys, and arrays holding objects are stringified
+// - strings are truncated to 255 characters, and dates are converted to the ISO 8601 format
+// - the largest properties are dropped until the payload fits in 50KB
+export function sanitizeProperties(
+    properties: Properties,
+    shouldKeepDollarProperty: NameMatcher | null
+): { properties: Properties; changes: PropertyChange[] } {
+    const changes: PropertyChange[] = []
+    const sanitized: Properties = {}
+
+    const addProperty = (property: string, value: unknown) => {
+        if (isPlainObject(value)) {
+            Object.entries(value).forEach(([key, nestedValue]) => addProperty(`${property}.${key}`, nestedValue))
+            return
+        }
+        if (Array.isArray(value) && value.some((item) => typeof item === 'object' && item !== null)) {
+            changes.push({ property, change: 'stringified' })
+            value = JSON.stringify(value)
+        }
+        // NOTE: dates that are already in the ISO 8601 format are sent as they are
+        if (
+            typeof value === 'string' &&
+            DATE_TIME_PATTERN.test(value) &&
+            !ISO_DATE_TIME_PATTERN.test(value) &&
+            !isNaN(new Date(value).getTime())
+        ) {
+            changes.push({ property, change: 'converted_date' })
+            value = new Date(value).toISOString()
+        }
+        if (typeof value === 'string' && value.length > MAX_PROPERTY_STRING_LENGTH) {
+            changes.push({ property, change: 'truncated' })
+            value = value.slice(0, MAX_PROPERTY_STRING_LENGTH)
+        }
+        sanitized[property] = value
+    }
+
+    Object.entries(properties).forEach(([property, value]) => {
+        if (shouldKeepDollarProperty && property.startsWith('$') && !shouldKeepDollarProperty(property)) {
+            changes.push({ property, change: 'removed' })
+            return
+        }
+        if (isPlainObject(value)) {
+            changes.push({ property, change: 'flattened' })
+        }
+        addProperty(property, value)
+    })
+
+    const getSize = (value: unknown) => Buffer.byteLength(JSON.stringify(value))
+    let payloadSize = getSize(sanitized)
+    const propertiesBySize = Object.keys(sanitized).sort((a, b) => getSize(sanitized[b]) - getSize(sanitized[a]))
+    for (const property of propertiesBySize) {
+        if (payloadSize <= MAX_PROPERTIES_PAYLOAD_BYTES) {
+            break
+        }
+        changes.push({ property, change: 'dropped_payload_size' })
+        delete sanitized[property]
+        payloadSize = getSize(sanitized)
+    }
+
+    return { properties: sanitized, changes }
+}
+
 export function ISODateString(d: Date): string {
     function pad(n: number) {
         return n < 10 ? '0' + n : n
@@ -124,11 +766,16 @@ export function ISODateString(d: Date): string {
 
 function getLastUTCMidnight() {
     const now = new Date()
-    return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0)
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 0, 0, 0))
 }
 
 type BrazeUserAlias = { alias_name: string; alias_label: string }
 
+type BrazeSubscriptionGroupState = {
+    subscription_group_id: string
+    subscription_state: 'subscribed' | 'unsubscribed'
+}
+
 type BrazeAttribute = {
     external_id?: string
     user_alias?: BrazeUserAlias
@@ -149,122 +796,2492 @@ type BrazeEvent = {
     _update_existing_only?: boolean
 }
 
+// NOTE: Reference: https://www.braze.com/docs/api/objects_filters/purchase_object/
+type BrazePurchase = {
+    external_id?: string
+    user_alias?: BrazeUserAlias
+    braze_id?: string
+    app_id?: string
+    product_id: string
+    currency: string // ISO 4217 currency code
+    price: number
+    quantity?: number // NOTE: between 1 and 100
+    time: string // ISO 8601 timestamp
+    properties?: Record<string, unknown>
+    _update_existing_only?: boolean
+}
+
 type BrazeUsersTrackBody = {
     attributes: Array<BrazeAttribute> // NOTE: max length 75
     events: Array<BrazeEvent> // NOTE: max length 75
+    purchases?: Array<BrazePurchase> // NOTE: max length 75
 }
 
-const _generateBrazeRequestBody = (pluginEvent: PluginEvent, meta: BrazeMeta): BrazeUsersTrackBody => {
-    const { event, $set, properties, timestamp } = pluginEvent
+type BrazeUserIdentity = { external_id: string } | { user_alias: BrazeUserAlias }
 
-    // If we have $set or properties.$set then attributes should be an array
-    // of one object. Otherwise it should be an empty array.
-    const userProperties: Properties = $set ?? properties?.$set ?? {}
-    const propertiesToExport = meta.config.userPropertiesToExport?.split(',') ?? []
-    const filteredProperties = Object.keys(userProperties).reduce((filtered, key) => {
-        if (propertiesToExport.includes(key)) {
-            filtered[key] = userProperties[key]
-        }
-        return filtered
-    }, {} as Properties)
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/user_data/post_user_identify/
+type BrazeAliasToIdentify = {
+    external_id: string
+    user_alias: BrazeUserAlias
+}
 
-    const shouldImportAttributes =
-        meta.config.importUserAttributesInAllEvents === 'Yes' || meta.config.eventsToExport?.split(',').includes(event)
+// Returns the external id of an identified user, or null for anonymous users. Without a
+// `userAliasLabel` configured, every user is considered identified by its distinct id.
+const _getExternalId = (pluginEvent: PluginEvent, meta: BrazeMeta): string | null => {
+    const { event, $set, $set_once, properties, distinct_id } = pluginEvent
+    const { externalIdPersonProperty, userAliasLabel } = meta.config
 
-    const attributes: Array<BrazeAttribute> =
-        shouldImportAttributes && Object.keys(filteredProperties).length
-            ? [{ ...filteredProperties, external_id: pluginEvent.distinct_id }]
-            : []
+    if (externalIdPersonProperty) {
+        const externalId =
+            $set?.[externalIdPersonProperty] ??
+            properties?.$set?.[externalIdPersonProperty] ??
+            $set_once?.[externalIdPersonProperty] ??
+            properties?.$set_once?.[externalIdPersonProperty] ??
+            properties?.[externalIdPersonProperty]
+        if (externalId !== undefined && externalId !== null && externalId !== '') {
+            return String(externalId)
+        }
+    }
 
-    // If we have an event name in the exportEvents config option then we
-    // should export the event to Braze.
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { $set: _set, ...eventProperties } = properties ?? {}
-    const events: Array<BrazeEvent> = meta.config.eventsToExport?.split(',').includes(event)
-        ? [
-              {
-                  properties: eventProperties,
-                  external_id: pluginEvent.distinct_id,
-                  name: event,
-                  time: timestamp ? ISODateString(new Date(timestamp)) : ISODateString(getLastUTCMidnight()),
-              },
-          ]
-        : []
+    if (!userAliasLabel) {
+        return distinct_id
+    }
 
-    return {
-        attributes,
-        events,
+    if (properties?.$user_id) {
+        return String(properties.$user_id)
     }
+
+    return event === '$identify' || properties?.$is_identified === true ? distinct_id : null
 }
 
-export const exportEvents = async (pluginEvents: PluginEvent[], meta: BrazeMeta): Promise<void> => {
-    if (!pluginEvents.length) {
-        console.warn('Received `exportEvents` with no events.')
-        return
-    }
+const _getBrazeUserIdentity = (pluginEvent: PluginEvent, meta: BrazeMeta): BrazeUserIdentity => {
+    const externalId = _getExternalId(pluginEvent, meta)
+    return externalId !== null
+        ? { external_id: externalId }
+        : { user_alias: { alias_name: pluginEvent.distinct_id, alias_label: meta.config.userAliasLabel } }
+}
 
-    // NOTE: We compute a unique ID for this request so we can identify the same request in the logs
-    const requestId = crypto.createHash('sha256').update(JSON.stringify(pluginEvents)).digest('hex')
-    const startTime = Date.now()
-    let oldestEventTimestamp = Date.now()
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/user_data/post_users_merge/
+type BrazeMergeUpdate = {
+    identifier_to_merge: BrazeUserIdentity
+    identifier_to_keep: BrazeUserIdentity
+}
 
-    const brazeRequestBodies = pluginEvents.map((pluginEvent) => {
-        if (pluginEvent.timestamp && new Date(pluginEvent.timestamp).getTime() < oldestEventTimestamp) {
-            oldestEventTimestamp = new Date(pluginEvent.timestamp).getTime()
-        }
-        return _generateBrazeRequestBody(pluginEvent, meta)
-    })
+// NOTE: PostHog doesn't capture an event when a person is deleted, so deletions are only forwarded
+// for this event, which has to be captured by the deletion workflow
+const PERSON_DELETE_EVENT = '$delete_person'
+const PERSON_MERGE_EVENTS = ['$create_alias', '$merge_dangerously']
 
-    console.log(
-        `Braze plugin export, received ${pluginEvents.length} events. Exporting ${
-            brazeRequestBodies.length
-        } batches. Oldest event in this batch was received ${(Date.now() - oldestEventTimestamp) / 1000} seconds ago.`,
-        requestId
-    )
+const _isPersonMerge = (pluginEvent: PluginEvent, meta: BrazeMeta): boolean =>
+    meta.config.forwardPersonChanges === 'Yes' &&
+    PERSON_MERGE_EVENTS.includes(pluginEvent.event) &&
+    !!pluginEvent.properties?.alias
 
-    if (
-        brazeRequestBodies.length === 0 ||
-        brazeRequestBodies.every((body) => body.attributes.length === 0 && body.events.length === 0)
-    ) {
-        return console.log('No events to export.')
+// NOTE: `$merge_dangerously` joins two identified persons, which are merged by their external ids. With user
+// aliases, the alias of `$create_alias` is an anonymous user, which is identified as the user instead.
+const _isIdentifiedMerge = (pluginEvent: PluginEvent, meta: BrazeMeta): boolean =>
+    !meta.config.userAliasLabel || pluginEvent.event === '$merge_dangerously'
+
+// On `$identify`, the alias of the anonymous user is merged into the identified user. The same goes
+// for the anonymous alias of `$create_alias` when forwarding person changes.
+const _getBrazeAliasToIdentify = (pluginEvent: PluginEvent, meta: BrazeMeta): BrazeAliasToIdentify | null => {
+    if (_isPersonMerge(pluginEvent, meta) && !_isIdentifiedMerge(pluginEvent, meta)) {
+        const identity = _getBrazeUserIdentity(pluginEvent, meta)
+        return 'external_id' in identity
+            ? {
+                  external_id: identity.external_id,
+                  user_alias: {
+                      alias_name: String(pluginEvent.properties?.alias),
+                      alias_label: meta.config.userAliasLabel,
+                  },
+              }
+            : null
     }
 
-    const batchSize = 75 // NOTE: https://www.braze.com/docs/api/endpoints/user_data/post_user_track/
-    const batchedBodies = brazeRequestBodies.reduce((acc, curr) => {
-        const { attributes, events } = curr
-        const lastBatch = acc[acc.length - 1]
+    const anonDistinctId = pluginEvent.properties?.$anon_distinct_id
+    if (!meta.config.userAliasLabel || pluginEvent.event !== '$identify' || !anonDistinctId) {
+        return null
+    }
 
-        if (attributes.length === 0 && events.length === 0) {
-            return acc
-        }
+    const externalId = _getExternalId(pluginEvent, meta)
+    if (externalId === null) {
+        return null
+    }
 
-        if (!lastBatch || lastBatch.attributes.length >= batchSize || lastBatch.events.length >= batchSize) {
-            acc.push({ attributes: [...attributes], events: [...events] })
-        } else {
-            lastBatch.attributes.push(...attributes)
-            lastBatch.events.push(...events)
+    return {
+        external_id: externalId,
+        user_alias: { alias_name: anonDistinctId, alias_label: meta.config.userAliasLabel },
+    }
+}
+
+// On `$create_alias` and `$merge_dangerously`, the Braze profile of the alias is merged into the profile
+// of the user, unless it is an anonymous alias merged into an identified user, which is identified instead.
+const _getBrazeMergeUpdate = (pluginEvent: PluginEvent, meta: BrazeMeta): BrazeMergeUpdate | null => {
+    if (!_isPersonMerge(pluginEvent, meta)) {
+        return null
+    }
+
+    const alias = String(pluginEvent.properties?.alias)
+    if (_isIdentifiedMerge(pluginEvent, meta)) {
+        return {
+            identifier_to_merge: { external_id: alias },
+            identifier_to_keep: { external_id: _getExternalId(pluginEvent, meta) ?? pluginEvent.distinct_id },
         }
+    }
+    const identifierToKeep = _getBrazeUserIdentity(pluginEvent, meta)
+    return 'external_id' in identifierToKeep
+        ? null
+        : {
+              identifier_to_merge: { user_alias: { alias_name: alias, alias_label: meta.config.userAliasLabel } },
+              identifier_to_keep: identifierToKeep,
+          }
+}
 
-        return acc
-    }, [] as BrazeUsersTrackBody[])
+// NOTE: a `$delete_person` event doesn't tell whether the person was identified, so with user aliases both its
+// identified profile and its anonymous profile are deleted
+const _getBrazeUsersToDelete = (pluginEvent: PluginEvent, meta: BrazeMeta): BrazeUserIdentity[] => {
+    if (meta.config.forwardPersonChanges !== 'Yes' || pluginEvent.event !== PERSON_DELETE_EVENT) {
+        return []
+    }
+    const identified = { external_id: _getExternalId(pluginEvent, meta) ?? pluginEvent.distinct_id }
+    return meta.config.userAliasLabel
+        ? [identified, { user_alias: { alias_name: pluginEvent.distinct_id, alias_label: meta.config.userAliasLabel } }]
+        : [identified]
+}
 
-    const brazeRequests = batchedBodies.map((body, idx) =>
-        meta.global.fetchBraze(
-            '/users/track',
-            {
-                body: JSON.stringify(body),
-            },
-            'POST',
-            `${requestId}-${idx}`
-        )
-    )
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/user_data/post_user_delete/
+const _getBrazeDeleteBody = (users: BrazeUserIdentity[]): Record<string, unknown> => ({
+    external_ids: users.flatMap((user) => ('external_id' in user ? [user.external_id] : [])),
+    user_aliases: users.flatMap((user) => ('user_alias' in user ? [user.user_alias] : [])),
+})
 
-    // NOTE: Send all requests in parallel, error responses already handled and logged by fetchBraze
-    await Promise.all(brazeRequests)
+const DEFAULT_PURCHASE_CURRENCY = 'USD'
 
-    const elapsedTime = (Date.now() - startTime) / 1000
+// Maps a purchase event to a Braze purchase object, or returns null if it has no product id or valid price.
+const _generateBrazePurchase = (
+    pluginEvent: PluginEvent,
+    identity: BrazeUserIdentity,
+    meta: BrazeMeta
+): BrazePurchase | null => {
+    const { properties, timestamp } = pluginEvent
+    const productIdProperty = meta.config.purchaseProductIdProperty || 'product_id'
+    const priceProperty = meta.config.purchasePriceProperty || 'price'
+    const currencyProperty = meta.config.purchaseCurrencyProperty || 'currency'
+    const quantityProperty = meta.config.purchaseQuantityProperty || 'quantity'
 
-    if (elapsedTime >= 30) {
-        console.warn(`🐢🐢 Slow exportEvents warning. Export took ${elapsedTime} seconds.`)
-    }
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $set: _set, $set_once: _setOnce, $unset: _unset, ...purchaseProperties } = properties ?? {}
+    const {
+        [productIdProperty]: productId,
+        [priceProperty]: price,
+        [currencyProperty]: currency,
+        [quantityProperty]: quantity,
+        ...otherProperties
+    } = purchaseProperties
+
+    if (productId === undefined || productId === null || productId === '' || isNaN(parseFloat(price))) {
+        console.warn(
+            `Event ${pluginEvent.event} (${pluginEvent.uuid}) has no product id or price, not exported as a purchase.`
+        )
+        return null
+    }
+
+    return {
+        ...identity,
+        product_id: String(productId),
+        currency: currency ? String(currency).toUpperCase() : DEFAULT_PURCHASE_CURRENCY,
+        price: parseFloat(price),
+        ...(isNaN(parseInt(quantity)) ? {} : { quantity: Math.min(Math.max(parseInt(quantity), 1), 100) }),
+        time: timestamp ? ISODateString(new Date(timestamp)) : ISODateString(getLastUTCMidnight()),
+        properties: otherProperties,
+    }
+}
+
+// NOTE: the Braze profile sync captures the Braze fields as person properties with a prefix. They are never
+// exported back to Braze, and its `$set` events are marked with a property so that they aren't exported at all.
+const DEFAULT_BRAZE_PROFILE_PROPERTY_PREFIX = 'braze_'
+const BRAZE_PROFILE_SYNC_PROPERTY = 'braze_profile_sync'
+const BRAZE_PROFILE_SYNC_QUEUE_KEY = 'braze_profile_sync_queue'
+
+const getBrazeProfilePropertyPrefix = (config: BrazeMeta['config']): string =>
+    config.brazeProfilePropertyPrefix || DEFAULT_BRAZE_PROFILE_PROPERTY_PREFIX
+
+const _isBrazeProfileProperty = (key: string, meta: BrazeMeta): boolean =>
+    meta.config.importBrazeProfiles === 'Yes' && key.startsWith(getBrazeProfilePropertyPrefix(meta.config))
+
+// NOTE: /users/export/ids accepts up to 50 external ids per request, and the sync is limited per run so that
+// its requests stay well below the rate limit of the endpoint
+const BRAZE_PROFILE_SYNC_BATCH_SIZE = 50
+const MAX_BRAZE_PROFILE_SYNCS_PER_RUN = 5000
+
+// NOTE: a user is queued at most once an hour, and the queue holds up to a day of runs. Users exported
+// while the queue is full are dropped, they are queued again on their next exported event.
+const BRAZE_PROFILE_SYNC_QUEUED_TTL_SECONDS = 60 * 60
+const MAX_BRAZE_PROFILE_SYNC_QUEUE_SIZE = 24 * MAX_BRAZE_PROFILE_SYNCS_PER_RUN
+
+// Queues the users of the exported events for the hourly Braze profile sync. Anonymous users exported with
+// a user alias have no `external_id` to look their profile up with.
+const _queueBrazeProfileSyncs = async (pluginEvents: PluginEvent[], meta: BrazeMeta): Promise<void> => {
+    const users = new Map<string, string>()
+    pluginEvents.forEach((pluginEvent) => {
+        const externalId = pluginEvent.event !== PERSON_DELETE_EVENT ? _getExternalId(pluginEvent, meta) : null
+        if (externalId !== null && !users.has(externalId)) {
+            users.set(externalId, JSON.stringify([externalId, pluginEvent.distinct_id]))
+        }
+    })
+    if (!users.size) {
+        return
+    }
+
+    const queueRoom = MAX_BRAZE_PROFILE_SYNC_QUEUE_SIZE - (await meta.cache.llen(BRAZE_PROFILE_SYNC_QUEUE_KEY))
+    if (queueRoom <= 0) {
+        console.warn(`Braze profile sync queue is full, dropped ${users.size} users.`)
+        return
+    }
+
+    const newUsers = (
+        await Promise.all(
+            [...users].map(async ([externalId, user]) => {
+                const key = `braze_profile_sync_queued_${externalId}`
+                if ((await meta.cache.incr(key)) > 1) {
+                    return []
+                }
+                await meta.cache.expire(key, BRAZE_PROFILE_SYNC_QUEUED_TTL_SECONDS)
+                return [user]
+            })
+        )
+    ).flat()
+    if (newUsers.length > queueRoom) {
+        console.warn(`Braze profile sync queue is full, dropped ${newUsers.length - queueRoom} users.`)
+    }
+    if (newUsers.length) {
+        await meta.cache.lpush(BRAZE_PROFILE_SYNC_QUEUE_KEY, newUsers.slice(0, queueRoom))
+    }
+}
+
+// Returns the first export route whose properties all match the event, events without one are exported to
+// the workspace of the plugin config without an `app_id`.
+const _getExportRoute = (
+    pluginEvent: PluginEvent,
+    meta: BrazeMeta
+): BrazeMeta['global']['exportRoutes'][number] | undefined =>
+    meta.global.exportRoutes.find(({ match }) =>
+        Object.entries(match).every(([property, matches]) => {
+            const value = pluginEvent.properties?.[property]
+            return value !== undefined && value !== null && matches(String(value))
+        })
+    )
+
+const _filterUserProperties = (userProperties: Properties, meta: BrazeMeta): Properties =>
+    Object.keys(userProperties).reduce((filtered, key) => {
+        if (meta.global.shouldExportUserProperty(key) && !_isBrazeProfileProperty(key, meta)) {
+            filtered[key] = userProperties[key]
+        }
+        return filtered
+    }, {} as Properties)
+
+const _shouldImportAttributes = (pluginEvent: PluginEvent, meta: BrazeMeta): boolean =>
+    meta.config.importUserAttributesInAllEvents === 'Yes' || meta.global.shouldExportEvent(pluginEvent.event)
+
+// Returns the `$set_once` user properties to export, they are only sent to Braze if they were never sent
+// for the user before.
+const _getSetOnceAttributes = (pluginEvent: PluginEvent, meta: BrazeMeta): Properties => {
+    const userProperties: Properties = pluginEvent.$set_once ?? pluginEvent.properties?.$set_once ?? {}
+    if (!_shouldImportAttributes(pluginEvent, meta)) {
+        return {}
+    }
+    return applyPropertyMapping(_filterUserProperties(userProperties, meta), meta.global.propertyMapping.attributes)
+}
+
+// Returns the Braze standard attributes filled from the GeoIP and device properties of an event:
+// `country` as an ISO-3166-1 alpha-2 code, `language` as an ISO-639-1 code, `home_city` and `current_location`.
+// NOTE: Reference: https://www.braze.com/docs/api/objects_filters/user_attributes_object/#braze-user-profile-fields
+const _getGeoAndDeviceAttributes = (properties: Properties): Properties => {
+    const attributes: Properties = {}
+
+    const countryCode = String(properties.$geoip_country_code ?? '')
+        .trim()
+        .toUpperCase()
+    if (/^[A-Z]{2}$/.test(countryCode)) {
+        attributes.country = countryCode
+    }
+
+    const city = String(properties.$geoip_city_name ?? '').trim()
+    if (city) {
+        attributes.home_city = city
+    }
+
+    const latitude = Number(properties.$geoip_latitude)
+    const longitude = Number(properties.$geoip_longitude)
+    if (
+        properties.$geoip_latitude != null &&
+        properties.$geoip_longitude != null &&
+        Math.abs(latitude) <= 90 &&
+        Math.abs(longitude) <= 180
+    ) {
+        attributes.current_location = { latitude, longitude }
+    }
+
+    // NOTE: locales such as `en-US` or `pt_BR` are reduced to their language
+    const language = String(properties.$browser_language ?? '')
+        .trim()
+        .split(/[-_]/)[0]
+        .toLowerCase()
+    if (/^[a-z]{2}$/.test(language)) {
+        attributes.language = language
+    }
+
+    return attributes
+}
+
+// Returns the geo and device attributes of an event that it doesn't set explicitly, as the standard attributes
+// in `$set` or mapped from event properties are never overwritten.
+const _getEnrichedAttributes = (pluginEvent: PluginEvent, meta: BrazeMeta): Properties => {
+    if (meta.config.enrichGeoAndDeviceAttributes !== 'Yes') {
+        return {}
+    }
+    const { $set, properties = {} } = pluginEvent
+    const { propertyMapping } = meta.global
+    const explicitNames = [
+        ...Object.keys(applyPropertyMapping($set ?? properties.$set ?? {}, propertyMapping.attributes)),
+        ...Object.entries(propertyMapping.eventPropertiesToAttributes).flatMap(([key, { name = key }]) =>
+            key in properties ? [name] : []
+        ),
+    ]
+    return Object.fromEntries(
+        Object.entries(_getGeoAndDeviceAttributes(properties)).filter(([key]) => !explicitNames.includes(key))
+    )
+}
+
+// Returns the subscription state attributes of the mapped consent properties present in `$set`.
+const _getSubscriptionAttributes = (userProperties: Properties, mapping: SubscriptionMapping): Properties => {
+    const attributes: Properties = {}
+
+    for (const key of ['email_subscribe', 'push_subscribe'] as const) {
+        const property = mapping[key]
+        const state = property && property in userProperties ? getSubscriptionState(userProperties[property]) : null
+        if (state) {
+            attributes[key] = state
+        }
+    }
+
+    const subscriptionGroups = Object.entries(mapping.subscription_groups).flatMap(
+        ([subscription_group_id, property]): BrazeSubscriptionGroupState[] => {
+            const state = property in userProperties ? getSubscriptionState(userProperties[property]) : null
+            // NOTE: subscription groups have no `opted_in` state
+            return state
+                ? [{ subscription_group_id, subscription_state: state === 'unsubscribed' ? state : 'subscribed' }]
+                : []
+        }
+    )
+    if (subscriptionGroups.length) {
+        attributes.subscription_groups = subscriptionGroups
+    }
+
+    return attributes
+}
+
+// Merges the attributes of a user, the subscription groups being merged by id.
+const _mergeBrazeAttributes = (attributes: BrazeAttribute, newAttributes: BrazeAttribute): BrazeAttribute => {
+    const merged = { ...attributes, ...newAttributes }
+    if (Array.isArray(attributes.subscription_groups) && Array.isArray(newAttributes.subscription_groups)) {
+        const groups = [
+            ...attributes.subscription_groups,
+            ...newAttributes.subscription_groups,
+        ] as BrazeSubscriptionGroupState[]
+        merged.subscription_groups = Object.values(
+            Object.fromEntries(groups.map((group) => [group.subscription_group_id, group]))
+        )
+    }
+    return merged
+}
+
+const _generateBrazeRequestBody = (pluginEvent: PluginEvent, meta: BrazeMeta): BrazeUsersTrackBody => {
+    const { event, $set, properties, timestamp } = pluginEvent
+    const identity = _getBrazeUserIdentity(pluginEvent, meta)
+    const appId = _getExportRoute(pluginEvent, meta)?.app_id
+
+    // If we have $set or properties.$set then attributes should be an array
+    // of one object. Otherwise it should be an empty array.
+    const userProperties: Properties = $set ?? properties?.$set ?? {}
+
+    // NOTE: `$unset` is a list of user properties to remove, which Braze does for null attributes
+    const unset = properties?.$unset ?? []
+    const unsetKeys: string[] = Array.isArray(unset) ? unset : Object.keys(unset)
+    const unsetProperties = Object.fromEntries(unsetKeys.map((key) => [key, null]))
+
+    const filteredProperties = _filterUserProperties({ ...userProperties, ...unsetProperties }, meta)
+
+    const shouldImportAttributes = _shouldImportAttributes(pluginEvent, meta)
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $set: _set, $set_once: _setOnce, $unset: _unset, ...eventProperties } = properties ?? {}
+    const { propertyMapping } = meta.global
+
+    // NOTE: event properties mapped to attributes are only exported if present, and $set values take precedence
+    const eventAttributes = applyPropertyMapping(
+        Object.fromEntries(
+            Object.entries(eventProperties).filter(([key]) => key in propertyMapping.eventPropertiesToAttributes)
+        ),
+        propertyMapping.eventPropertiesToAttributes
+    )
+    const mappedProperties = {
+        ..._getEnrichedAttributes(pluginEvent, meta),
+        ...eventAttributes,
+        ...applyPropertyMapping(filteredProperties, propertyMapping.attributes),
+    }
+
+    // NOTE: consent is always exported, even from events whose other user properties aren't
+    const subscriptionAttributes = _getSubscriptionAttributes(userProperties, meta.global.subscriptionMapping)
+    const exportedAttributes = { ...(shouldImportAttributes ? mappedProperties : {}), ...subscriptionAttributes }
+
+    const attributes: Array<BrazeAttribute> = Object.keys(exportedAttributes).length
+        ? [{ ...exportedAttributes, ...identity }]
+        : []
+
+    // If we have an event name in the exportEvents config option then we
+    // should export the event to Braze.
+    const events: Array<BrazeEvent> = meta.global.shouldExportEvent(event)
+        ? [
+              {
+                  properties: applyPropertyMapping(eventProperties, propertyMapping.events),
+                  ...identity,
+                  ...(appId ? { app_id: appId } : {}),
+                  name: event,
+                  time: timestamp ? ISODateString(new Date(timestamp)) : ISODateString(getLastUTCMidnight()),
+              },
+          ]
+        : []
+
+    // If we have an event name in the purchaseEventsToExport config option then
+    // we should also export the event to Braze as a purchase.
+    const purchase = meta.global.shouldExportPurchase(event)
+        ? _generateBrazePurchase(pluginEvent, identity, meta)
+        : null
+
+    return {
+        attributes,
+        events,
+        ...(purchase ? { purchases: [appId ? { ...purchase, app_id: appId } : purchase] } : {}),
+    }
+}
+
+type BrazeInputArray = 'attributes' | 'events' | 'purchases'
+
+type BrazePropertyChange = PropertyChange & { input_array: BrazeInputArray }
+
+// Sanitizes the properties of the events and purchases, and the attributes, of a `/users/track` body.
+// The `$` properties are only removed from events and purchases, the attributes being explicitly listed.
+const _sanitizeBrazeRequestBody = (
+    body: BrazeUsersTrackBody,
+    meta: BrazeMeta
+): { body: BrazeUsersTrackBody; changes: BrazePropertyChange[] } => {
+    const changes: BrazePropertyChange[] = []
+    const sanitize = (
+        properties: Properties,
+        input_array: BrazeInputArray,
+        shouldKeepDollarProperty: NameMatcher | null
+    ) => {
+        const sanitized = sanitizeProperties(properties, shouldKeepDollarProperty)
+        changes.push(...sanitized.changes.map((change) => ({ ...change, input_array })))
+        return sanitized.properties
+    }
+
+    // NOTE: the identity keys and the standard attributes holding objects are sent as they are
+    const isUnsanitizedKey = (key: string) =>
+        BRAZE_ATTRIBUTE_IDENTITY_KEYS.includes(key) || ['current_location', 'subscription_groups'].includes(key)
+    const attributes = body.attributes.map((attribute) => {
+        const unsanitized = Object.fromEntries(Object.entries(attribute).filter(([key]) => isUnsanitizedKey(key)))
+        const customAttributes = Object.fromEntries(Object.entries(attribute).filter(([key]) => !isUnsanitizedKey(key)))
+        return { ...sanitize(customAttributes, 'attributes', null), ...unsanitized } as BrazeAttribute
+    })
+    const events = body.events.map((event) =>
+        event.properties
+            ? { ...event, properties: sanitize(event.properties, 'events', meta.global.shouldExportDollarProperty) }
+            : event
+    )
+    const purchases = body.purchases?.map((purchase) =>
+        purchase.properties
+            ? {
+                  ...purchase,
+                  properties: sanitize(purchase.properties, 'purchases', meta.global.shouldExportDollarProperty),
+              }
+            : purchase
+    )
+
+    return { body: { attributes, events, ...(purchases ? { purchases } : {}) }, changes }
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/user_data/post_user_track/#responses
+type BrazeTrackError = { type: string; input_array: BrazeInputArray; index: number }
+
+// A `/users/track` body, with the PostHog events each of its attributes, events and purchases was generated from.
+type BrazeBatch = {
+    body: BrazeUsersTrackBody
+    sources: Record<BrazeInputArray, PluginEvent[][]>
+}
+
+// An object sent to Braze, with the PostHog events it was generated from.
+type BrazeBatchItem<T> = { item: T; sources: PluginEvent[] }
+
+export type BrazeRejectedEvent = {
+    uuid?: string
+    distinct_id: string
+    event: string
+    input_array: BrazeInputArray
+    type: string
+}
+
+// Maps the errors of a `/users/track` response back to the PostHog events of the batch.
+const _getRejectedEvents = (batch: BrazeBatch, errors: BrazeTrackError[]): BrazeRejectedEvent[] =>
+    errors.flatMap(({ type, input_array, index }) =>
+        (batch.sources[input_array]?.[index] ?? [undefined]).map((pluginEvent) => ({
+            uuid: pluginEvent?.uuid,
+            distinct_id: pluginEvent?.distinct_id,
+            event: pluginEvent?.event,
+            input_array,
+            type,
+        }))
+    )
+
+// Identifies the Braze user of an attributes, event or purchase object.
+const _getBrazeUserKey = (object: BrazeAttribute | BrazeEvent | BrazePurchase): string =>
+    object.external_id ?? JSON.stringify(object.user_alias)
+
+const _getEventTime = (pluginEvent: PluginEvent): number =>
+    new Date(pluginEvent.timestamp ?? pluginEvent.now).getTime() || 0
+
+// NOTE: fingerprints are kept in memory for the most active users, and in storage for all of them
+const MAX_CACHED_FINGERPRINTS = 10000
+const DEFAULT_ATTRIBUTES_RESYNC_DAYS = 7
+
+// Keys of an attributes object that identify the user, they are always sent.
+const BRAZE_ATTRIBUTE_IDENTITY_KEYS = [
+    'external_id',
+    'user_alias',
+    'braze_id',
+    '_update_existing_only',
+    'push_token_import',
+]
+
+const _getAttributeHash = (value: unknown): string =>
+    crypto.createHash('sha256').update(JSON.stringify(value)).digest('base64').slice(0, 12)
+
+const _getFingerprintsStorageKey = (userKey: string): string => `attribute_fingerprints_${userKey}`
+
+async function _getAttributeFingerprints(meta: BrazeMeta, userKey: string): Promise<AttributeFingerprints | null> {
+    const cachedFingerprints = meta.global.attributeFingerprints.get(userKey)
+    if (cachedFingerprints) {
+        return cachedFingerprints
+    }
+    const fingerprints = (await meta.storage.get(
+        _getFingerprintsStorageKey(userKey),
+        null
+    )) as AttributeFingerprints | null
+    if (fingerprints) {
+        meta.global.attributeFingerprints.set(userKey, fingerprints)
+    }
+    return fingerprints
+}
+
+// Drops the attributes whose value was already sent to Braze, unless a full resync of the user is due.
+async function _dropUnchangedAttributes(meta: BrazeMeta, attributes: BrazeAttribute): Promise<BrazeAttribute> {
+    const fingerprints = await _getAttributeFingerprints(meta, _getBrazeUserKey(attributes))
+    const resyncDays = parseInt(meta.config.attributesResyncDays) || DEFAULT_ATTRIBUTES_RESYNC_DAYS
+    if (!fingerprints || Date.now() - fingerprints.syncedAt >= resyncDays * ONE_DAY_MS) {
+        return attributes
+    }
+    return Object.fromEntries(
+        Object.entries(attributes).filter(
+            ([key, value]) =>
+                BRAZE_ATTRIBUTE_IDENTITY_KEYS.includes(key) || fingerprints.hashes[key] !== _getAttributeHash(value)
+        )
+    ) as BrazeAttribute
+}
+
+// Records the attributes successfully sent to Braze. A user whose fingerprints are missing or due for
+// a resync had all of its attributes sent, so its full sync time is reset.
+async function _saveAttributeFingerprints(meta: BrazeMeta, attributes: BrazeAttribute): Promise<void> {
+    const userKey = _getBrazeUserKey(attributes)
+    const previousFingerprints = await _getAttributeFingerprints(meta, userKey)
+    const resyncDays = parseInt(meta.config.attributesResyncDays) || DEFAULT_ATTRIBUTES_RESYNC_DAYS
+    const isFullSync = !previousFingerprints || Date.now() - previousFingerprints.syncedAt >= resyncDays * ONE_DAY_MS
+
+    const hashes = Object.fromEntries(
+        Object.entries(attributes)
+            .filter(([key]) => !BRAZE_ATTRIBUTE_IDENTITY_KEYS.includes(key))
+            .map(([key, value]) => [key, _getAttributeHash(value)])
+    )
+    const fingerprints = {
+        syncedAt: isFullSync ? Date.now() : previousFingerprints.syncedAt,
+        hashes: { ...(isFullSync ? {} : previousFingerprints.hashes), ...hashes },
+    }
+    meta.global.attributeFingerprints.set(userKey, fingerprints)
+    await meta.storage.set(_getFingerprintsStorageKey(userKey), fingerprints)
+}
+
+const _getSetOnceStorageKey = (userKey: string): string => `set_once_attributes_${userKey}`
+
+// Adds the `$set_once` attributes that were never sent for the user, unless they are also in `$set`.
+async function _addSetOnceAttributes(
+    meta: BrazeMeta,
+    attributes: BrazeAttribute,
+    setOnceAttributes: Properties | undefined
+): Promise<BrazeAttribute> {
+    if (!setOnceAttributes) {
+        return attributes
+    }
+    const sentKeys = (await meta.storage.get(_getSetOnceStorageKey(_getBrazeUserKey(attributes)), [])) as string[]
+    const unsentAttributes = Object.fromEntries(
+        Object.entries(setOnceAttributes).filter(([key]) => !sentKeys.includes(key))
+    )
+    return { ...unsentAttributes, ...attributes }
+}
+
+async function _saveSetOnceAttributes(
+    meta: BrazeMeta,
+    attributes: BrazeAttribute,
+    setOnceAttributes: Properties
+): Promise<void> {
+    const storageKey = _getSetOnceStorageKey(_getBrazeUserKey(attributes))
+    const sentKeys = (await meta.storage.get(storageKey, [])) as string[]
+    await meta.storage.set(storageKey, [...new Set([...sentKeys, ...Object.keys(setOnceAttributes)])])
+}
+
+// An event that could not be exported to Braze, kept in storage with the body that was built for it
+// so that it can be replayed once the cause of the failure (e.g. a missing API key permission) is fixed.
+type DeadLetter = {
+    event: PluginEvent
+    body: BrazeUsersTrackBody
+    error: string
+    failedAt: string
+}
+
+type BrazeExportFailure = Omit<DeadLetter, 'failedAt'>
+
+type BrazeExportResult = {
+    rejectedEvents: BrazeRejectedEvent[]
+    failures: BrazeExportFailure[]
+}
+
+const DEAD_LETTERS_STORAGE_KEY = 'dead_letters'
+const DEFAULT_DEAD_LETTER_MAX_AGE_DAYS = 7
+const DEFAULT_DEAD_LETTER_MAX_SIZE = 1000
+
+// NOTE: the dead letters are updated under a lock, as concurrent exports and replays would otherwise overwrite
+// each other's changes. The lock expires in case its holder stops before releasing it.
+const DEAD_LETTERS_LOCK_KEY = 'dead_letters_lock'
+const DEAD_LETTERS_LOCK_TTL_SECONDS = 30
+const DEAD_LETTERS_LOCK_WAIT_MS = 100
+const MAX_DEAD_LETTERS_LOCK_ATTEMPTS = 100
+
+// NOTE: the plugin server drops an export after a few retries, so the last attempt stores its failed
+// events as dead letters instead of asking for another retry
+const MAX_EXPORT_ATTEMPTS = 3
+const EXPORT_ATTEMPTS_TTL_SECONDS = 24 * 60 * 60
+
+// Counts the attempts of an export, which is retried with the same events and thus the same request ID.
+async function _getExportAttempt(meta: BrazeMeta, requestId: string): Promise<number> {
+    if (meta.config.deadLetterEvents !== 'Yes') {
+        return 0
+    }
+    const key = `export_attempts_${requestId}`
+    const attempt = await meta.cache.incr(key)
+    await meta.cache.expire(key, EXPORT_ATTEMPTS_TTL_SECONDS)
+    return attempt
+}
+
+// Logs a request of a dry run instead of sending it to Braze, with the number of items of each list in its body.
+const _logDryRunRequest: FetchBraze = async (endpoint, options, method, requestId = '') => {
+    const body = JSON.parse(String(options.body ?? '{}')) as Record<string, unknown>
+    const counts = Object.entries(body)
+        .filter(([, value]) => Array.isArray(value))
+        .map(([key, value]) => `${(value as unknown[]).length} ${key}`)
+    console.log(`Braze dry run, ${method} ${endpoint} with ${counts.join(', ')}:`, JSON.stringify(body), requestId)
+    return null
+}
+
+// Explains why an event of a dry run exports nothing to Braze. Events matching `Events to Export` always
+// export an event, so the remaining reasons are about purchases and user properties.
+const _getFilteredEventReason = (
+    pluginEvent: PluginEvent,
+    body: BrazeUsersTrackBody,
+    setOnceAttributes: Properties,
+    meta: BrazeMeta
+): string => {
+    if (body.attributes.length || Object.keys(setOnceAttributes).length) {
+        return meta.config.onlySendChangedAttributes === 'Yes'
+            ? 'its attributes are unchanged since they were last sent'
+            : 'its $set_once attributes were already sent'
+    }
+    if (meta.global.shouldExportPurchase(pluginEvent.event)) {
+        return 'the purchase has no product id or price'
+    }
+    if (!_shouldImportAttributes(pluginEvent, meta)) {
+        return 'not matched by Events to Export or Purchase Events to Export'
+    }
+    return 'no user properties matched by User Properties to Export'
+}
+
+// Sends objects to a Braze endpoint in batches of `batchSize`. The PostHog events of the batches Braze
+// rejects are passed to `onError`.
+async function _sendBrazeBatches<T>(
+    fetchBraze: FetchBraze,
+    endpoint: string,
+    items: BrazeBatchItem<T>[],
+    batchSize: number,
+    getBody: (batchItems: T[]) => Record<string, unknown>,
+    requestId: string,
+    onError: (sources: PluginEvent[], error: string) => void
+): Promise<void> {
+    for (let idx = 0; idx < items.length; idx += batchSize) {
+        const batchItems = items.slice(idx, idx + batchSize)
+        try {
+            await fetchBraze(
+                endpoint,
+                { body: JSON.stringify(getBody(batchItems.map(({ item }) => item))) },
+                'POST',
+                `${requestId}${endpoint.replace(/\//g, '-')}-${idx / batchSize}`
+            )
+        } catch (error) {
+            if (!(error instanceof BrazeRequestError)) {
+                throw error
+            }
+            onError(
+                batchItems.flatMap(({ sources }) => sources),
+                error.message
+            )
+        }
+    }
+}
+
+const _exportRouteEvents = async (
+    pluginEvents: PluginEvent[],
+    meta: BrazeMeta,
+    dryRun = meta.config.dryRun === 'Yes'
+): Promise<BrazeExportResult> => {
+    // NOTE: We compute a unique ID for this request so we can identify the same request in the logs
+    const requestId = crypto.createHash('sha256').update(JSON.stringify(pluginEvents)).digest('hex')
+    const fetchBraze = dryRun ? _logDryRunRequest : meta.global.fetchBraze
+    const startTime = Date.now()
+    let oldestEventTimestamp = Date.now()
+
+    const propertyChanges: Array<BrazePropertyChange & { uuid?: string; event: string }> = []
+
+    const brazeRequestBodies = pluginEvents.map((pluginEvent) => {
+        if (pluginEvent.timestamp && new Date(pluginEvent.timestamp).getTime() < oldestEventTimestamp) {
+            oldestEventTimestamp = new Date(pluginEvent.timestamp).getTime()
+        }
+        const body = _generateBrazeRequestBody(pluginEvent, meta)
+        if (meta.config.sanitizeProperties !== 'Yes') {
+            return body
+        }
+
+        const sanitized = _sanitizeBrazeRequestBody(body, meta)
+        const { uuid, event } = pluginEvent
+        propertyChanges.push(...sanitized.changes.map((change) => ({ uuid, event, ...change })))
+        return sanitized.body
+    })
+
+    if (propertyChanges.length) {
+        console.warn(
+            `Braze plugin sanitized ${propertyChanges.length} properties of ${pluginEvents.length} events.`,
+            JSON.stringify({ propertyChanges }),
+            requestId
+        )
+    }
+
+    console.log(
+        `Braze plugin export, received ${pluginEvents.length} events. Exporting ${
+            brazeRequestBodies.length
+        } batches. Oldest event in this batch was received ${(Date.now() - oldestEventTimestamp) / 1000} seconds ago.`,
+        requestId
+    )
+
+    const errorsByEvent = new Map<PluginEvent, string[]>()
+    const addErrors = (sources: PluginEvent[] = [], error: string) =>
+        sources.forEach((pluginEvent) =>
+            errorsByEvent.set(pluginEvent, [...(errorsByEvent.get(pluginEvent) ?? []), error])
+        )
+
+    const aliasesToIdentify = pluginEvents.flatMap((pluginEvent) => {
+        const alias = _getBrazeAliasToIdentify(pluginEvent, meta)
+        return alias ? [{ item: alias, sources: [pluginEvent] }] : []
+    })
+
+    // NOTE: aliases are merged before tracking, so that the attributes and events of an identified user
+    // are recorded on the profile that holds its anonymous history
+    const identifyBatchSize = 50 // NOTE: https://www.braze.com/docs/api/endpoints/user_data/post_user_identify/
+    for (let idx = 0; idx < aliasesToIdentify.length; idx += identifyBatchSize) {
+        try {
+            await fetchBraze(
+                '/users/identify',
+                {
+                    body: JSON.stringify({
+                        aliases_to_identify: aliasesToIdentify
+                            .slice(idx, idx + identifyBatchSize)
+                            .map(({ item }) => item),
+                    }),
+                },
+                'POST',
+                `${requestId}-identify-${idx / identifyBatchSize}`
+            )
+        } catch (error) {
+            // NOTE: the error is logged by fetchBraze, the events are still tracked without merging the aliases
+            if (!(error instanceof BrazeRequestError)) {
+                throw error
+            }
+        }
+    }
+
+    const mergeUpdates = pluginEvents.flatMap((pluginEvent) => {
+        const mergeUpdate = _getBrazeMergeUpdate(pluginEvent, meta)
+        return mergeUpdate ? [{ item: mergeUpdate, sources: [pluginEvent] }] : []
+    })
+    await _sendBrazeBatches(
+        fetchBraze,
+        '/users/merge',
+        mergeUpdates,
+        50, // NOTE: https://www.braze.com/docs/api/endpoints/user_data/post_users_merge/
+        (merge_updates) => ({ merge_updates }),
+        requestId,
+        addErrors
+    )
+
+    const setOnceAttributes = pluginEvents.map((pluginEvent) => _getSetOnceAttributes(pluginEvent, meta))
+
+    if (
+        brazeRequestBodies.length === 0 ||
+        brazeRequestBodies.every(
+            (body, idx) =>
+                body.attributes.length === 0 &&
+                body.events.length === 0 &&
+                !body.purchases?.length &&
+                Object.keys(setOnceAttributes[idx]).length === 0
+        )
+    ) {
+        console.log('No events to export.')
+    }
+
+    // NOTE: events are handled in chronological order, so that the latest `$set` of a user wins when its
+    // attributes are merged, and the events of a user are sent in the order they happened
+    const chronologicalIndexes = pluginEvents
+        .map((_, idx) => idx)
+        .sort((a, b) => _getEventTime(pluginEvents[a]) - _getEventTime(pluginEvents[b]))
+
+    const attributeItems: BrazeBatchItem<BrazeAttribute>[] = []
+    const eventItems: BrazeBatchItem<BrazeEvent>[] = []
+    const purchaseItems: BrazeBatchItem<BrazePurchase>[] = []
+    const attributeItemsByUser = new Map<string, BrazeBatchItem<BrazeAttribute>>()
+    const explicitAttributeNamesByUser = new Map<string, Set<string>>()
+    const setOnceAttributesByUser = new Map<string, Properties>()
+
+    chronologicalIndexes.forEach((idx) => {
+        const pluginEvent = pluginEvents[idx]
+        const { attributes, events, purchases = [] } = brazeRequestBodies[idx]
+
+        // NOTE: the attributes of a user are merged into a single object, which saves room in the batches
+        // and avoids sending conflicting values for the same user. Enriched attributes of a later event don't
+        // overwrite the ones an earlier event of the user set explicitly.
+        const enrichedNames = Object.keys(_getEnrichedAttributes(pluginEvent, meta))
+        attributes.forEach((userAttributes) => {
+            const userKey = _getBrazeUserKey(userAttributes)
+            const explicitNames = explicitAttributeNamesByUser.get(userKey) ?? new Set<string>()
+            const attribute = Object.fromEntries(
+                Object.entries(userAttributes).filter(
+                    ([key]) => !enrichedNames.includes(key) || !explicitNames.has(key)
+                )
+            ) as BrazeAttribute
+            Object.keys(attribute)
+                .filter((key) => !enrichedNames.includes(key))
+                .forEach((key) => explicitNames.add(key))
+            explicitAttributeNamesByUser.set(userKey, explicitNames)
+
+            const userItem = attributeItemsByUser.get(userKey)
+            if (userItem) {
+                userItem.item = _mergeBrazeAttributes(userItem.item, attribute)
+                userItem.sources.push(pluginEvent)
+            } else {
+                const item = { item: { ...attribute }, sources: [pluginEvent] }
+                attributeItemsByUser.set(userKey, item)
+                attributeItems.push(item)
+            }
+        })
+
+        // NOTE: the first `$set_once` value of a user wins
+        if (Object.keys(setOnceAttributes[idx]).length) {
+            const identity = _getBrazeUserIdentity(pluginEvent, meta)
+            const userKey = _getBrazeUserKey(identity)
+            setOnceAttributesByUser.set(userKey, { ...setOnceAttributes[idx], ...setOnceAttributesByUser.get(userKey) })
+
+            const userItem = attributeItemsByUser.get(userKey)
+            if (!userItem) {
+                const item = { item: { ...identity }, sources: [pluginEvent] }
+                attributeItemsByUser.set(userKey, item)
+                attributeItems.push(item)
+            } else if (!userItem.sources.includes(pluginEvent)) {
+                userItem.sources.push(pluginEvent)
+            }
+        }
+
+        eventItems.push(...events.map((item) => ({ item, sources: [pluginEvent] })))
+        purchaseItems.push(...purchases.map((item) => ({ item, sources: [pluginEvent] })))
+    })
+
+    // NOTE: `$set_once` attributes are only added if they were never sent for the user, and in delta mode
+    // only the attributes that changed since they were last sent are exported
+    const changedAttributeItems = (
+        await Promise.all(
+            attributeItems.map(async ({ item, sources }) => {
+                let attributes = await _addSetOnceAttributes(
+                    meta,
+                    item,
+                    setOnceAttributesByUser.get(_getBrazeUserKey(item))
+                )
+                if (meta.config.onlySendChangedAttributes === 'Yes') {
+                    attributes = await _dropUnchangedAttributes(meta, attributes)
+                }
+                return { item: attributes, sources }
+            })
+        )
+    ).filter(({ item }) => Object.keys(item).some((key) => !BRAZE_ATTRIBUTE_IDENTITY_KEYS.includes(key)))
+
+    const batchSize = 75 // NOTE: https://www.braze.com/docs/api/endpoints/user_data/post_user_track/
+    const batchCount = Math.ceil(
+        Math.max(changedAttributeItems.length, eventItems.length, purchaseItems.length) / batchSize
+    )
+    const batches: BrazeBatch[] = Array.from({ length: batchCount }, (_, batchIdx) => {
+        const getBatchItems = <T>(items: BrazeBatchItem<T>[]) =>
+            items.slice(batchIdx * batchSize, (batchIdx + 1) * batchSize)
+        const attributes = getBatchItems(changedAttributeItems)
+        const events = getBatchItems(eventItems)
+        const purchases = getBatchItems(purchaseItems)
+
+        return {
+            body: {
+                attributes: attributes.map(({ item }) => item),
+                events: events.map(({ item }) => item),
+                ...(purchases.length ? { purchases: purchases.map(({ item }) => item) } : {}),
+            },
+            sources: {
+                attributes: attributes.map(({ sources }) => sources),
+                events: events.map(({ sources }) => sources),
+                purchases: purchases.map(({ sources }) => sources),
+            },
+        }
+    })
+
+    const exportAttempt = await _getExportAttempt(meta, requestId)
+
+    // NOTE: a batch waits for the previous batches holding the same users, so that the attributes and events
+    // of a user reach Braze in order while batches of different users are sent in parallel
+    const lastRequestByUser = new Map<string, Promise<unknown>>()
+
+    const brazeRequests = batches.map((batch, idx) => {
+        const { attributes, events, purchases = [] } = batch.body
+        const userKeys = new Set([...attributes, ...events, ...purchases].map(_getBrazeUserKey))
+        const previousRequests = [...userKeys].flatMap((userKey) => lastRequestByUser.get(userKey) ?? [])
+
+        const request = (async () => {
+            await Promise.allSettled(previousRequests)
+            try {
+                const response = await fetchBraze(
+                    '/users/track',
+                    {
+                        body: JSON.stringify(batch.body),
+                    },
+                    'POST',
+                    `${requestId}-${idx}`
+                )
+                // NOTE: items Braze rejects in an accepted request are only logged, not dead lettered, as replaying
+                // their events would send the other items of the events (and of the merged attributes) again
+                const errors = (response?.['errors'] ?? []) as BrazeTrackError[]
+                const rejectedIndexes = new Set(
+                    errors.filter(({ input_array }) => input_array === 'attributes').map(({ index }) => index)
+                )
+                // NOTE: a dry run doesn't record anything as sent, so that the real export still sends it
+                await Promise.all(
+                    attributes
+                        .filter((_, index) => !dryRun && !rejectedIndexes.has(index))
+                        .map(async (userAttributes) => {
+                            const userSetOnceAttributes = setOnceAttributesByUser.get(_getBrazeUserKey(userAttributes))
+                            if (userSetOnceAttributes) {
+                                await _saveSetOnceAttributes(meta, userAttributes, userSetOnceAttributes)
+                            }
+                            if (meta.config.onlySendChangedAttributes === 'Yes') {
+                                await _saveAttributeFingerprints(meta, userAttributes)
+                            }
+                        })
+                )
+                return _getRejectedEvents(batch, errors)
+            } catch (error) {
+                const isLastAttempt = error instanceof RetryError && exportAttempt >= MAX_EXPORT_ATTEMPTS
+                if (!(error instanceof BrazeRequestError) && !isLastAttempt) {
+                    throw error
+                }
+                // NOTE: the whole batch failed, every event in it is dead lettered
+                const batchEvents = [...batch.sources.attributes, ...batch.sources.events, ...batch.sources.purchases]
+                addErrors([...new Set(batchEvents.flat())], (error as Error).message)
+                return error instanceof BrazeRequestError
+                    ? _getRejectedEvents(batch, (error.response?.['errors'] ?? []) as BrazeTrackError[])
+                    : []
+            }
+        })()
+
+        userKeys.forEach((userKey) => lastRequestByUser.set(userKey, request))
+        return request
+    })
+
+    // NOTE: Send all requests in parallel, the number of in-flight requests is capped by the request scheduler.
+    // Error responses already handled and logged by fetchBraze
+    const rejectedEvents = (await Promise.all(brazeRequests)).flat()
+
+    // NOTE: users are deleted once their events are tracked, so that the tracking doesn't recreate them
+    const usersToDelete = pluginEvents.flatMap((pluginEvent) =>
+        _getBrazeUsersToDelete(pluginEvent, meta).map((user) => ({ item: user, sources: [pluginEvent] }))
+    )
+    await _sendBrazeBatches(
+        fetchBraze,
+        '/users/delete',
+        usersToDelete,
+        50, // NOTE: https://www.braze.com/docs/api/endpoints/user_data/post_user_delete/
+        _getBrazeDeleteBody,
+        requestId,
+        addErrors
+    )
+
+    if (dryRun) {
+        const exportedEvents = new Set(
+            [
+                ...aliasesToIdentify,
+                ...mergeUpdates,
+                ...changedAttributeItems,
+                ...eventItems,
+                ...purchaseItems,
+                ...usersToDelete,
+            ].flatMap(({ sources }) => sources)
+        )
+        const filteredEvents = pluginEvents.flatMap((pluginEvent, idx) =>
+            exportedEvents.has(pluginEvent)
+                ? []
+                : [
+                      {
+                          uuid: pluginEvent.uuid,
+                          event: pluginEvent.event,
+                          distinct_id: pluginEvent.distinct_id,
+                          reason: _getFilteredEventReason(
+                              pluginEvent,
+                              brazeRequestBodies[idx],
+                              setOnceAttributes[idx],
+                              meta
+                          ),
+                      },
+                  ]
+        )
+        console.log(
+            `Braze dry run, ${batches.length} /users/track batches, ${filteredEvents.length} of ${pluginEvents.length} events filtered out.`,
+            JSON.stringify({ filteredEvents }),
+            requestId
+        )
+    }
+
+    if (rejectedEvents.length) {
+        const errorCounts = rejectedEvents.reduce((counts, { type }) => {
+            counts[type] = (counts[type] ?? 0) + 1
+            return counts
+        }, {} as Record<string, number>)
+        console.warn(
+            `Braze rejected ${rejectedEvents.length} items of ${pluginEvents.length} events.`,
+            JSON.stringify({ errorCounts, rejectedEvents }),
+            requestId
+        )
+    }
+
+    const elapsedTime = (Date.now() - startTime) / 1000
+
+    if (elapsedTime >= 30) {
+        console.warn(`🐢🐢 Slow exportEvents warning. Export took ${elapsedTime} seconds.`)
+    }
+
+    const failures = pluginEvents
+        .map((event, idx) => ({ event, body: brazeRequestBodies[idx], error: errorsByEvent.get(event)?.join('; ') }))
+        .filter((failure): failure is BrazeExportFailure => failure.error !== undefined)
+
+    return { rejectedEvents, failures }
+}
+
+// Returns the meta of the export to a workspace route. Its requests are sent with its own fetch, and its
+// per-user state (attribute fingerprints and sent `$set_once` attributes) is kept under its own storage keys.
+const _getWorkspaceMeta = (meta: BrazeMeta, workspace: BrazeWorkspace): BrazeMeta => {
+    const prefix = `workspace_${workspace.name}_`
+    return {
+        ...meta,
+        global: {
+            ...meta.global,
+            fetchBraze: workspace.fetchBraze,
+            attributeFingerprints: workspace.attributeFingerprints,
+        },
+        storage: {
+            get: (key, defaultValue) => meta.storage.get(`${prefix}${key}`, defaultValue),
+            set: (key, value) => meta.storage.set(`${prefix}${key}`, value),
+            del: (key) => meta.storage.del(`${prefix}${key}`),
+        },
+    }
+}
+
+// Exports the events of each route on its own, so that the batches of a route only hold its `app_id` and
+// are sent to its workspace.
+const _exportEvents = async (
+    pluginEvents: PluginEvent[],
+    meta: BrazeMeta,
+    dryRun = meta.config.dryRun === 'Yes'
+): Promise<BrazeExportResult> => {
+    const eventsByRoute = new Map<BrazeMeta['global']['exportRoutes'][number] | undefined, PluginEvent[]>()
+    for (const pluginEvent of pluginEvents) {
+        const route = _getExportRoute(pluginEvent, meta)
+        eventsByRoute.set(route, [...(eventsByRoute.get(route) ?? []), pluginEvent])
+    }
+
+    // NOTE: profiles are only pulled from the workspace of the plugin config
+    if (meta.config.importBrazeProfiles === 'Yes' && !dryRun) {
+        await _queueBrazeProfileSyncs(
+            [...eventsByRoute].flatMap(([route, routeEvents]) => (route?.workspace ? [] : routeEvents)),
+            meta
+        )
+    }
+
+    const result: BrazeExportResult = { rejectedEvents: [], failures: [] }
+    for (const [route, routeEvents] of eventsByRoute) {
+        const routeMeta = route?.workspace ? _getWorkspaceMeta(meta, route.workspace) : meta
+        const { rejectedEvents, failures } = await _exportRouteEvents(routeEvents, routeMeta, dryRun)
+        result.rejectedEvents.push(...rejectedEvents)
+        result.failures.push(...failures)
+    }
+    return result
+}
+
+// Exports events to Braze, and returns the events that Braze rejected.
+export const exportEvents = async (pluginEvents: PluginEvent[], meta: BrazeMeta): Promise<BrazeRejectedEvent[]> => {
+    if (!pluginEvents.length) {
+        console.warn('Received `exportEvents` with no events.')
+        return []
+    }
+
+    // NOTE: the `$set` events of the Braze profile sync would only send the values of Braze back to it
+    const exportedEvents = pluginEvents.filter((pluginEvent) => !pluginEvent.properties?.[BRAZE_PROFILE_SYNC_PROPERTY])
+    if (!exportedEvents.length) {
+        return []
+    }
+
+    const { rejectedEvents, failures } = await _exportEvents(exportedEvents, meta)
+
+    if (meta.config.deadLetterEvents === 'Yes' && failures.length) {
+        const failedAt = ISODateString(new Date())
+        await _storeDeadLetters(
+            meta,
+            failures.map((failure) => ({ ...failure, failedAt }))
+        )
+    }
+
+    return rejectedEvents
+}
+
+// Runs `update` on the stored dead letters while holding their lock, and stores the dead letters it returns.
+async function _updateDeadLetters(meta: BrazeMeta, update: (deadLetters: DeadLetter[]) => DeadLetter[]): Promise<void> {
+    const { cache, storage } = meta
+    for (let attempt = 0; attempt < MAX_DEAD_LETTERS_LOCK_ATTEMPTS; attempt++) {
+        if ((await cache.incr(DEAD_LETTERS_LOCK_KEY)) === 1) {
+            await cache.expire(DEAD_LETTERS_LOCK_KEY, DEAD_LETTERS_LOCK_TTL_SECONDS)
+            try {
+                const deadLetters = (await storage.get(DEAD_LETTERS_STORAGE_KEY, [])) as DeadLetter[]
+                await storage.set(DEAD_LETTERS_STORAGE_KEY, update(deadLetters))
+                return
+            } finally {
+                // NOTE: an expiry of 0 seconds releases the lock right away
+                await cache.expire(DEAD_LETTERS_LOCK_KEY, 0)
+            }
+        }
+        await sleep(DEAD_LETTERS_LOCK_WAIT_MS)
+    }
+    throw new RetryError('Braze dead letters are locked by another export, retrying.')
+}
+
+// Adds dead letters to storage, dropping the ones older than the max age and then the oldest ones
+// above the max size.
+async function _storeDeadLetters(meta: BrazeMeta, deadLetters: DeadLetter[]): Promise<void> {
+    const maxAgeDays = parseInt(meta.config.deadLetterMaxAgeDays) || DEFAULT_DEAD_LETTER_MAX_AGE_DAYS
+    const maxSize = parseInt(meta.config.deadLetterMaxSize) || DEFAULT_DEAD_LETTER_MAX_SIZE
+    const minFailedAt = Date.now() - maxAgeDays * ONE_DAY_MS
+
+    await _updateDeadLetters(meta, (storedDeadLetters) => {
+        const allDeadLetters = [...storedDeadLetters, ...deadLetters]
+            .filter(({ failedAt }) => new Date(failedAt).getTime() >= minFailedAt)
+            .sort((a, b) => new Date(a.failedAt).getTime() - new Date(b.failedAt).getTime())
+        const droppedCount = storedDeadLetters.length + deadLetters.length - Math.min(allDeadLetters.length, maxSize)
+
+        if (droppedCount > 0) {
+            console.warn(
+                `Dropped ${droppedCount} Braze dead letters older than ${maxAgeDays} days or above ${maxSize}.`
+            )
+        }
+        return allDeadLetters.slice(-maxSize)
+    })
+}
+
+// Exports the dead letters again, their Braze bodies are built again from the original events so that
+// config and mapping fixes apply. The ones failing again are kept until they reach the max age.
+async function replayDeadLetters(meta: BrazeMeta): Promise<void> {
+    // NOTE: a dry run would drop the dead letters without sending them
+    if (meta.config.deadLetterEvents !== 'Yes' || meta.config.dryRun === 'Yes') {
+        return
+    }
+
+    // NOTE: the dead letters are taken out of storage, so that a concurrent replay doesn't send them again
+    let deadLetters: DeadLetter[] = []
+    try {
+        await _updateDeadLetters(meta, (storedDeadLetters) => {
+            deadLetters = storedDeadLetters
+            return []
+        })
+    } catch (error) {
+        console.error('Braze dead letters replay skipped, they are replayed on the next run: ', error)
+        return
+    }
+    if (!deadLetters.length) {
+        return
+    }
+
+    let failedDeadLetters: DeadLetter[]
+    try {
+        const { failures } = await _exportEvents(
+            deadLetters.map(({ event }) => event),
+            meta
+        )
+        const failedAtByEvent = new Map(deadLetters.map(({ event, failedAt }) => [event, failedAt]))
+        failedDeadLetters = failures.map((failure) => ({
+            ...failure,
+            failedAt: failedAtByEvent.get(failure.event) ?? ISODateString(new Date()),
+        }))
+    } catch (error) {
+        // NOTE: Braze is unavailable, the dead letters are kept as they were for the next replay
+        console.error('Braze dead letters replay failed: ', error)
+        failedDeadLetters = deadLetters
+    }
+
+    console.log(
+        `Braze dead letters replay, replayed ${deadLetters.length} events, ${failedDeadLetters.length} failed again.`
+    )
+    await _storeDeadLetters(meta, failedDeadLetters)
+}
+
+type BrazeMessageStats = Record<string, number | string>
+
+type BrazeCampaign = {
+    id: string
+    name: string
+    is_api_campaign: boolean
+    tags: string[]
+    last_edited: string
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/campaigns/get_campaign_details/
+type BrazeCampaignDetails = {
+    name: string
+    archived: boolean
+    draft: boolean
+    channels?: string[]
+    tags?: string[]
+    first_sent?: string
+    last_sent?: string
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/campaigns/get_campaign_analytics/
+type BrazeCampaignDataSeries = {
+    time: string
+    messages?: Record<string, BrazeMessageStats[]>
+} & Record<string, unknown>
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000
+
+type BrazeCanvas = {
+    id: string
+    name: string
+    tags: string[]
+    last_edited: string
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/canvas/get_canvas_details/
+type BrazeCanvasDetails = {
+    name: string
+    archived: boolean
+    draft: boolean
+    channels?: string[]
+    tags?: string[]
+    first_entry?: string
+    last_entry?: string
+    variants?: Array<{ id: string; name: string }>
+    steps?: Array<{ id: string; name: string; type?: string; channels?: string[] }>
+}
+
+type BrazeCanvasStats = {
+    name?: string
+    messages?: Record<string, BrazeMessageStats[]>
+} & Record<string, unknown>
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/canvas/get_canvas_analytics/
+type BrazeCanvasDataSeries = {
+    name: string
+    stats: Array<{
+        time: string
+        total_stats: BrazeCanvasStats
+        variant_stats?: Record<string, BrazeCanvasStats>
+        step_stats?: Record<string, BrazeCanvasStats>
+    }>
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/kpi/get_kpi_dau_date/
+const BRAZE_KPIS = ['dau', 'mau', 'new_users', 'uninstalls'] as const
+
+type BrazeKPI = typeof BRAZE_KPIS[number]
+
+type BrazeKPIDataSeries = { time: string } & Partial<Record<BrazeKPI, number>>
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/custom_events/get_custom_events_analytics/
+type BrazeCustomEventDataSeries = { time: string; count: number }
+
+type BrazeSegment = {
+    id: string
+    name: string
+    analytics_tracking_enabled: boolean
+    tags: string[]
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/segments/get_segment_details/
+type BrazeSegmentDetails = {
+    name: string
+    description?: string
+    text_description?: string
+    tags?: string[]
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/segments/get_segment_analytics/
+type BrazeSegmentDataSeries = { time: string; size: number }
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/sessions/get_sessions_analytics/
+type BrazeSessionsDataSeries = { time: string; sessions: number }
+
+type BrazeFeedCard = {
+    id: string
+    type: string
+    title: string
+    tags: string[]
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/news_feed/get_news_feed_card_details/
+type BrazeFeedCardDetails = {
+    name: string
+    title?: string
+    tags?: string[]
+    archived?: boolean
+    draft?: boolean
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/news_feed/get_news_feed_card_analytics/
+type BrazeFeedCardDataSeries = {
+    time: string
+    clicks?: number
+    impressions?: number
+    unique_clicks?: number
+    unique_impressions?: number
+}
+
+// A range of consecutive days, ending at `endingAt` (UTC midnight), to import in a single data series request.
+type ImportWindow = { endingAt: Date; length: number }
+
+// The first and last day (`YYYY-MM-DD`) already imported for an entity, e.g. a campaign.
+type ImportWatermark = { from: string; to: string }
+
+// NOTE: Canvas data series are limited to 14 days per request, we use the same limit for all imports
+const MAX_IMPORT_WINDOW_LENGTH = 14
+
+// NOTE: Braze list endpoints return at most 100 items per page, except `/events/list` which returns 250
+const BRAZE_LIST_PAGE_SIZE = 100
+const BRAZE_EVENTS_LIST_PAGE_SIZE = 250
+
+// Pages through a Braze list endpoint (e.g. `/campaigns/list`) until a page with
+// less than `pageSize` items is returned.
+async function fetchBrazeList<T>(
+    meta: BrazeMeta,
+    endpoint: string,
+    key: string,
+    params: Record<string, string> = {},
+    pageSize = BRAZE_LIST_PAGE_SIZE
+): Promise<T[]> {
+    const items: T[] = []
+    let page = 0
+
+    while (true) {
+        const query = new URLSearchParams({ ...params, page: String(page) }).toString()
+        const response = await meta.global.fetchBraze(`${endpoint}?${query}`, {}, 'GET')
+        const pageItems = (response?.[key] ?? []) as T[]
+        items.push(...pageItems)
+
+        if (pageItems.length < pageSize) {
+            return items
+        }
+        page++
+    }
+}
+
+// Fetches the `data` of a Braze `data_series` endpoint for the days of an import window.
+async function fetchBrazeDataSeries<T>(
+    meta: BrazeMeta,
+    endpoint: string,
+    { endingAt, length }: ImportWindow,
+    params: Record<string, string> = {}
+): Promise<T | undefined> {
+    const query = new URLSearchParams({
+        ...params,
+        length: String(length),
+        ending_at: ISODateString(endingAt),
+    }).toString()
+    const response = await meta.global.fetchBraze(`${endpoint}?${query}`, {}, 'GET')
+    return response?.['data'] as T | undefined
+}
+
+// Fetches a Braze `details` endpoint (e.g. `/campaigns/details`).
+async function fetchBrazeDetails<T>(
+    meta: BrazeMeta,
+    endpoint: string,
+    params: Record<string, string>
+): Promise<T | null> {
+    const query = new URLSearchParams(params).toString()
+    return (await meta.global.fetchBraze(`${endpoint}?${query}`, {}, 'GET')) as T | null
+}
+
+function getDateString(date: Date): string {
+    return ISODateString(date).slice(0, 10)
+}
+
+function getWatermarkStorageKey(importType: string, entityId: string): string {
+    return `watermark_${importType}_${entityId}`
+}
+
+// Returns the import windows covering every day of an entity that was not imported yet, oldest first,
+// up to the day ending at `endingAt`. Days older than the watermark are only imported one at a time,
+// when the backfill reaches them.
+async function getImportWindows(meta: BrazeMeta, watermarkKey: string, endingAt: Date): Promise<ImportWindow[]> {
+    const watermark = (await meta.storage.get(watermarkKey, null)) as ImportWatermark | null
+    const lastDay = getDateString(new Date(endingAt.getTime() - ONE_DAY_MS))
+
+    if (!watermark || lastDay < watermark.from) {
+        return [{ endingAt, length: 1 }]
+    }
+
+    const windows: ImportWindow[] = []
+    let windowStart = new Date(watermark.to).getTime() + ONE_DAY_MS
+    while (windowStart < endingAt.getTime()) {
+        const length = Math.min(MAX_IMPORT_WINDOW_LENGTH, (endingAt.getTime() - windowStart) / ONE_DAY_MS)
+        windowStart += length * ONE_DAY_MS
+        windows.push({ endingAt: new Date(windowStart), length })
+    }
+    return windows
+}
+
+// Extends the watermark of an entity with the days of an import window once they are captured.
+async function saveWatermark(meta: BrazeMeta, watermarkKey: string, { endingAt, length }: ImportWindow) {
+    const watermark = (await meta.storage.get(watermarkKey, null)) as ImportWatermark | null
+    const from = getDateString(new Date(endingAt.getTime() - length * ONE_DAY_MS))
+    const to = getDateString(new Date(endingAt.getTime() - ONE_DAY_MS))
+
+    await meta.storage.set(watermarkKey, {
+        from: watermark && watermark.from < from ? watermark.from : from,
+        to: watermark && watermark.to > to ? watermark.to : to,
+    })
+}
+
+// A deterministic key for each imported event, so that duplicates can be identified in PostHog.
+function getDedupeKey(...parts: Array<string | null>): string {
+    return parts.map((part) => part ?? 'all').join(':')
+}
+
+// Returns true if the `last_sent`/`last_entry` date of an item falls in the time window.
+function isActiveSince(lastActivity: string | undefined, startingAt: Date): boolean {
+    return !!lastActivity && new Date(lastActivity).getTime() >= startingAt.getTime()
+}
+
+// Returns true if any numeric stat of a data series entry is non zero.
+function hasActivity(entry: Record<string, unknown>): boolean {
+    return Object.values(pickNumericStats(entry)).some((value) => value !== 0)
+}
+
+// Sums every numeric stat across all channels and variants of a data series
+// entry, e.g. `sent`, `opens`, `unique_clicks`, `direct_opens`.
+function sumMessageStats(messages: Record<string, BrazeMessageStats[]> = {}): Record<string, number> {
+    const totals: Record<string, number> = {}
+    for (const channelStats of Object.values(messages)) {
+        for (const stats of channelStats) {
+            for (const [key, value] of Object.entries(stats)) {
+                if (typeof value === 'number') {
+                    totals[key] = (totals[key] ?? 0) + value
+                }
+            }
+        }
+    }
+    return totals
+}
+
+// Picks the top level numeric stats of a data series entry, e.g. `conversions`, `revenue`.
+function pickNumericStats(entry: Record<string, unknown>): Record<string, number> {
+    const stats: Record<string, number> = {}
+    for (const [key, value] of Object.entries(entry)) {
+        if (typeof value === 'number') {
+            stats[key] = value
+        }
+    }
+    return stats
+}
+
+async function importCampaigns(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    const campaigns = await fetchBrazeList<BrazeCampaign>(meta, '/campaigns/list', 'campaigns', {
+        include_archived: 'false',
+    })
+
+    for (const campaign of campaigns) {
+        const watermarkKey = getWatermarkStorageKey('campaigns', campaign.id)
+        const windows = await getImportWindows(meta, watermarkKey, endingAt)
+        if (!windows.length) {
+            continue
+        }
+
+        const details = await fetchBrazeDetails<BrazeCampaignDetails>(meta, '/campaigns/details', {
+            campaign_id: campaign.id,
+        })
+
+        // NOTE: campaigns that did not send anything in the time window are skipped
+        const startingAt = new Date(windows[0].endingAt.getTime() - windows[0].length * ONE_DAY_MS)
+        if (!details || !isActiveSince(details.last_sent, startingAt)) {
+            continue
+        }
+
+        for (const window of windows) {
+            const dataSeries =
+                (await fetchBrazeDataSeries<BrazeCampaignDataSeries[]>(meta, '/campaigns/data_series', window, {
+                    campaign_id: campaign.id,
+                })) ?? []
+
+            for (const { time, messages, ...stats } of dataSeries) {
+                await posthog.capture('Braze Campaign', {
+                    timestamp: ISODateString(new Date(time)),
+                    dedupe_key: getDedupeKey('campaign', campaign.id, time),
+                    campaign_id: campaign.id,
+                    campaign_name: details.name ?? campaign.name,
+                    campaign_tags: details.tags ?? campaign.tags,
+                    channels: details.channels ?? [],
+                    date: time,
+                    ...pickNumericStats(stats),
+                    ...sumMessageStats(messages),
+                })
+            }
+            await saveWatermark(meta, watermarkKey, window)
+        }
+    }
+}
+
+async function importCanvases(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    const canvases = await fetchBrazeList<BrazeCanvas>(meta, '/canvas/list', 'canvases', {
+        include_archived: 'false',
+    })
+
+    for (const canvas of canvases) {
+        const watermarkKey = getWatermarkStorageKey('canvases', canvas.id)
+        const windows = await getImportWindows(meta, watermarkKey, endingAt)
+        if (!windows.length) {
+            continue
+        }
+
+        const details = await fetchBrazeDetails<BrazeCanvasDetails>(meta, '/canvas/details', {
+            canvas_id: canvas.id,
+        })
+
+        // NOTE: canvases that no user entered in the time window are skipped
+        const startingAt = new Date(windows[0].endingAt.getTime() - windows[0].length * ONE_DAY_MS)
+        if (!details || !isActiveSince(details.last_entry, startingAt)) {
+            continue
+        }
+
+        const canvasProperties = {
+            canvas_id: canvas.id,
+            canvas_name: details.name ?? canvas.name,
+            canvas_tags: details.tags ?? canvas.tags,
+        }
+
+        for (const window of windows) {
+            const dataSeries = await fetchBrazeDataSeries<BrazeCanvasDataSeries>(meta, '/canvas/data_series', window, {
+                canvas_id: canvas.id,
+                include_variant_breakdown: 'true',
+                include_step_breakdown: 'true',
+            })
+
+            for (const { time, total_stats, variant_stats = {}, step_stats = {} } of dataSeries?.stats ?? []) {
+                await posthog.capture('Braze Canvas', {
+                    timestamp: ISODateString(new Date(time)),
+                    dedupe_key: getDedupeKey('canvas', canvas.id, time),
+                    ...canvasProperties,
+                    channels: details.channels ?? [],
+                    date: time,
+                    ...pickNumericStats(total_stats),
+                    variants: Object.entries(variant_stats).map(([variantId, { name, ...stats }]) => ({
+                        variant_id: variantId,
+                        variant_name: name,
+                        ...pickNumericStats(stats),
+                    })),
+                })
+
+                for (const [stepId, { name, messages, ...stats }] of Object.entries(step_stats)) {
+                    const step = details.steps?.find(({ id }) => id === stepId)
+                    await posthog.capture('Braze Canvas Step', {
+                        timestamp: ISODateString(new Date(time)),
+                        dedupe_key: getDedupeKey('canvas_step', canvas.id, stepId, time),
+                        ...canvasProperties,
+                        step_id: stepId,
+                        step_name: name ?? step?.name,
+                        step_type: step?.type,
+                        channels: step?.channels ?? Object.keys(messages ?? {}),
+                        date: time,
+                        ...pickNumericStats(stats),
+                        ...sumMessageStats(messages),
+                    })
+                }
+            }
+            await saveWatermark(meta, watermarkKey, window)
+        }
+    }
+}
+
+async function importKPIs(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    // NOTE: without any app id configured, KPIs are imported for all apps combined
+    const appIds = (meta.config.kpiAppIds ?? '')
+        .split(',')
+        .map((appId) => appId.trim())
+        .filter(Boolean)
+
+    for (const appId of appIds.length ? appIds : [null]) {
+        const watermarkKey = getWatermarkStorageKey('kpis', appId ?? 'all')
+
+        for (const window of await getImportWindows(meta, watermarkKey, endingAt)) {
+            const kpisByDate: Record<string, Partial<Record<BrazeKPI, number>>> = {}
+
+            for (const kpi of BRAZE_KPIS) {
+                const dataSeries =
+                    (await fetchBrazeDataSeries<BrazeKPIDataSeries[]>(
+                        meta,
+                        `/kpi/${kpi}/data_series`,
+                        window,
+                        appId ? { app_id: appId } : {}
+                    )) ?? []
+
+                for (const { time, [kpi]: value } of dataSeries) {
+                    kpisByDate[time] = { ...kpisByDate[time], [kpi]: value }
+                }
+            }
+
+            for (const [date, kpis] of Object.entries(kpisByDate)) {
+                await posthog.capture('Braze KPI', {
+                    timestamp: ISODateString(new Date(date)),
+                    dedupe_key: getDedupeKey('kpi', appId, date),
+                    app_id: appId,
+                    date,
+                    ...kpis,
+                })
+            }
+            await saveWatermark(meta, watermarkKey, window)
+        }
+    }
+}
+
+async function importCustomEvents(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    const eventNames = await fetchBrazeList<string>(meta, '/events/list', 'events', {}, BRAZE_EVENTS_LIST_PAGE_SIZE)
+
+    for (const eventName of eventNames) {
+        const watermarkKey = getWatermarkStorageKey('custom_events', eventName)
+
+        for (const window of await getImportWindows(meta, watermarkKey, endingAt)) {
+            const dataSeries =
+                (await fetchBrazeDataSeries<BrazeCustomEventDataSeries[]>(meta, '/events/data_series', window, {
+                    event: eventName,
+                    unit: 'day',
+                })) ?? []
+
+            // NOTE: custom events that were not tracked in the time window are skipped
+            for (const { time, ...stats } of dataSeries.filter(hasActivity)) {
+                await posthog.capture('Braze Custom Event', {
+                    timestamp: ISODateString(new Date(time)),
+                    dedupe_key: getDedupeKey('custom_event', eventName, time),
+                    event_name: eventName,
+                    date: time,
+                    ...stats,
+                })
+            }
+            await saveWatermark(meta, watermarkKey, window)
+        }
+    }
+}
+
+async function importSegments(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    const segments = await fetchBrazeList<BrazeSegment>(meta, '/segments/list', 'segments')
+
+    for (const segment of segments) {
+        // NOTE: Braze only records data series for segments with analytics tracking enabled
+        if (!segment.analytics_tracking_enabled) {
+            continue
+        }
+
+        const watermarkKey = getWatermarkStorageKey('segments', segment.id)
+        let details: BrazeSegmentDetails | null | undefined
+
+        for (const window of await getImportWindows(meta, watermarkKey, endingAt)) {
+            const dataSeries = (
+                (await fetchBrazeDataSeries<BrazeSegmentDataSeries[]>(meta, '/segments/data_series', window, {
+                    segment_id: segment.id,
+                })) ?? []
+            ).filter(hasActivity)
+
+            if (dataSeries.length && details === undefined) {
+                details = await fetchBrazeDetails<BrazeSegmentDetails>(meta, '/segments/details', {
+                    segment_id: segment.id,
+                })
+            }
+
+            for (const { time, ...stats } of dataSeries) {
+                await posthog.capture('Braze Segment', {
+                    timestamp: ISODateString(new Date(time)),
+                    dedupe_key: getDedupeKey('segment', segment.id, time),
+                    segment_id: segment.id,
+                    segment_name: details?.name ?? segment.name,
+                    segment_tags: details?.tags ?? segment.tags,
+                    segment_description: details?.text_description ?? details?.description,
+                    date: time,
+                    ...stats,
+                })
+            }
+            await saveWatermark(meta, watermarkKey, window)
+        }
+    }
+}
+
+async function importSessions(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    const watermarkKey = getWatermarkStorageKey('sessions', 'all')
+
+    for (const window of await getImportWindows(meta, watermarkKey, endingAt)) {
+        const dataSeries =
+            (await fetchBrazeDataSeries<BrazeSessionsDataSeries[]>(meta, '/sessions/data_series', window, {
+                unit: 'day',
+            })) ?? []
+
+        for (const { time, ...stats } of dataSeries) {
+            await posthog.capture('Braze Sessions', {
+                timestamp: ISODateString(new Date(time)),
+                dedupe_key: getDedupeKey('sessions', null, time),
+                date: time,
+                ...stats,
+            })
+        }
+        await saveWatermark(meta, watermarkKey, window)
+    }
+}
+
+async function importFeeds(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    const cards = await fetchBrazeList<BrazeFeedCard>(meta, '/feed/list', 'cards', { include_archived: 'false' })
+
+    for (const card of cards) {
+        const watermarkKey = getWatermarkStorageKey('feeds', card.id)
+        let details: BrazeFeedCardDetails | null | undefined
+
+        for (const window of await getImportWindows(meta, watermarkKey, endingAt)) {
+            // NOTE: cards without any impression or click in the time window are skipped
+            const dataSeries = (
+                (await fetchBrazeDataSeries<BrazeFeedCardDataSeries[]>(meta, '/feed/data_series', window, {
+                    card_id: card.id,
+                    unit: 'day',
+                })) ?? []
+            ).filter(hasActivity)
+
+            if (dataSeries.length && details === undefined) {
+                details = await fetchBrazeDetails<BrazeFeedCardDetails>(meta, '/feed/details', { card_id: card.id })
+            }
+
+            for (const { time, ...stats } of dataSeries) {
+                await posthog.capture('Braze News Feed Card', {
+                    timestamp: ISODateString(new Date(time)),
+                    dedupe_key: getDedupeKey('feed_card', card.id, time),
+                    card_id: card.id,
+                    card_name: details?.name,
+                    card_title: details?.title ?? card.title,
+                    card_tags: details?.tags ?? card.tags,
+                    card_type: card.type,
+                    date: time,
+                    ...stats,
+                })
+            }
+            await saveWatermark(meta, watermarkKey, window)
+        }
+    }
+}
+
+type AvroSchema =
+    | string
+    | AvroSchema[]
+    | {
+          type: AvroSchema
+          name?: string
+          namespace?: string
+          fields?: Array<{ name: string; type: AvroSchema }>
+          items?: AvroSchema
+          values?: AvroSchema
+          symbols?: string[]
+          size?: number
+      }
+
+// Registers the named types (records, enums and fixed) of a schema, so that they can be referenced by name.
+function getAvroNamedTypes(schema: AvroSchema, namedTypes = new Map<string, AvroSchema>()): Map<string, AvroSchema> {
+    if (Array.isArray(schema)) {
+        schema.forEach((branch) => getAvroNamedTypes(branch, namedTypes))
+    } else if (typeof schema === 'object') {
+        if (schema.name) {
+            namedTypes.set(schema.name, schema)
+            namedTypes.set(schema.namespace ? `${schema.namespace}.${schema.name}` : schema.name, schema)
+        }
+        const children = [schema.type, schema.items, schema.values, ...(schema.fields ?? []).map(({ type }) => type)]
+        children.forEach((child) => child && typeof child !== 'string' && getAvroNamedTypes(child, namedTypes))
+    }
+    return namedTypes
+}
+
+// Reads Avro binary encoded data, see https://avro.apache.org/docs/1.11.1/specification/#binary-encoding
+function createAvroReader(buffer: Buffer, namedTypes: Map<string, AvroSchema>) {
+    let offset = 0
+
+    // NOTE: longs are zig-zag encoded variable length integers, decoded without bitwise operators
+    // which would truncate them to 32 bits
+    const readLong = (): number => {
+        let value = 0
+        let multiplier = 1
+        let byte: number
+        do {
+            byte = buffer[offset++]
+            value += (byte & 0x7f) * multiplier
+            multiplier *= 128
+        } while (byte & 0x80)
+        return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+    }
+    const readFixed = (size: number): Buffer => {
+        const bytes = buffer.subarray(offset, offset + size)
+        offset += size
+        return bytes
+    }
+    const readBytes = (): Buffer => readFixed(readLong())
+    const readBlocks = (readItem: () => void): void => {
+        for (let count = readLong(); count !== 0; count = readLong()) {
+            if (count < 0) {
+                count = -count
+                readLong() // NOTE: the size in bytes of the block
+            }
+            for (let idx = 0; idx < count; idx++) {
+                readItem()
+            }
+        }
+    }
+
+    const read = (schema: AvroSchema): unknown => {
+        if (Array.isArray(schema)) {
+            return read(schema[readLong()])
+        }
+        if (typeof schema === 'object' && typeof schema.type !== 'string') {
+            return read(schema.type)
+        }
+
+        const type = typeof schema === 'string' ? schema : (schema.type as string)
+        const {
+            fields = [],
+            items = 'null',
+            values = 'null',
+            symbols = [],
+            size = 0,
+        } = typeof schema === 'object' ? schema : {}
+        switch (type) {
+            case 'null':
+                return null
+            case 'boolean':
+                return readFixed(1)[0] === 1
+            case 'int':
+            case 'long':
+                return readLong()
+            case 'float':
+                return readFixed(4).readFloatLE(0)
+            case 'double':
+                return readFixed(8).readDoubleLE(0)
+            case 'bytes':
+                return readBytes().toString('base64')
+            case 'string':
+                return readBytes().toString('utf8')
+            case 'fixed':
+                return readFixed(size).toString('base64')
+            case 'enum':
+                return symbols[readLong()]
+            case 'record':
+            case 'error':
+                return Object.fromEntries(fields.map((field) => [field.name, read(field.type)]))
+            case 'array': {
+                const array: unknown[] = []
+                readBlocks(() => array.push(read(items)))
+                return array
+            }
+            case 'map': {
+                const map: Record<string, unknown> = {}
+                readBlocks(() => {
+                    const key = readBytes().toString('utf8')
+                    map[key] = read(values)
+                })
+                return map
+            }
+            default: {
+                const namedType = namedTypes.get(type)
+                if (!namedType) {
+                    throw new Error(`Unsupported Avro type: ${type}`)
+                }
+                return read(namedType)
+            }
+        }
+    }
+
+    return { read, readLong, readFixed, readBytes, readBlocks, isDone: () => offset >= buffer.length }
+}
+
+// Decodes the records of an Avro object container file, compressed with the `null` or `deflate` codec.
+// NOTE: Reference: https://avro.apache.org/docs/1.11.1/specification/#object-container-files
+export function decodeAvroContainer(buffer: Buffer): unknown[] {
+    if (buffer.subarray(0, 4).toString('binary') !== 'Obj\x01') {
+        throw new Error('Invalid Avro file, the magic bytes are missing.')
+    }
+
+    const reader = createAvroReader(buffer.subarray(4), new Map())
+    const metadata: Record<string, string> = {}
+    reader.readBlocks(() => {
+        const key = reader.readBytes().toString('utf8')
+        metadata[key] = reader.readBytes().toString('utf8')
+    })
+    const sync = reader.readFixed(16)
+
+    const codec = metadata['avro.codec'] ?? 'null'
+    if (codec !== 'null' && codec !== 'deflate') {
+        throw new Error(`Unsupported Avro codec: ${codec}`)
+    }
+    const schema = JSON.parse(metadata['avro.schema']) as AvroSchema
+    const namedTypes = getAvroNamedTypes(schema)
+
+    const records: unknown[] = []
+    while (!reader.isDone()) {
+        const count = reader.readLong()
+        const data = reader.readBytes()
+        if (!reader.readFixed(16).equals(sync)) {
+            throw new Error('Invalid Avro file, a sync marker is wrong.')
+        }
+
+        const blockReader = createAvroReader(codec === 'deflate' ? inflateRawSync(data) : data, namedTypes)
+        for (let idx = 0; idx < count; idx++) {
+            records.push(blockReader.read(schema))
+        }
+    }
+    return records
+}
+
+// NOTE: Reference: https://www.braze.com/docs/user_guide/data_and_analytics/braze_currents/event_glossary/message_engagement_events/
+type BrazeCurrentsEvent = {
+    id: string
+    external_user_id?: string | null
+    time: number // NOTE: Unix timestamp in seconds
+} & Record<string, unknown>
+
+const CURRENTS_EVENT_NAMES: Record<string, string> = {
+    'users.messages.email.Send': 'Braze Email Sent',
+    'users.messages.email.Delivery': 'Braze Email Delivered',
+    'users.messages.email.Open': 'Braze Email Opened',
+    'users.messages.email.Click': 'Braze Email Clicked',
+    'users.messages.email.Bounce': 'Braze Email Bounced',
+    'users.messages.email.Unsubscribe': 'Braze Email Unsubscribed',
+    'users.messages.pushnotification.Send': 'Braze Push Sent',
+    'users.messages.pushnotification.Open': 'Braze Push Opened',
+    'users.messages.sms.Delivery': 'Braze SMS Delivered',
+    'users.canvas.Entry': 'Braze Canvas Entered',
+}
+
+// NOTE: files are imported in batches to keep each run short, the next run picks up where this one stopped
+const MAX_CURRENTS_FILES_PER_RUN = 50
+const MAX_CURRENTS_PREFIX_DEPTH = 4
+
+function getCurrentsCursorStorageKey(folder: string): string {
+    return `currents_cursor_${folder}`
+}
+
+// Lists the `event_type=...` folders Currents writes to under a prefix, e.g.
+// `<prefix>/dataexport.prod-01.S3.integration.<id>/event_type=users.messages.email.Open/`.
+async function listCurrentsFolders(s3: S3, bucket: string, prefix: string, depth = 0): Promise<string[]> {
+    const folders: string[] = []
+    let continuationToken: string | undefined
+
+    do {
+        const response = await s3
+            .listObjectsV2({ Bucket: bucket, Prefix: prefix, Delimiter: '/', ContinuationToken: continuationToken })
+            .promise()
+        for (const { Prefix: folder } of response.CommonPrefixes ?? []) {
+            if (!folder) {
+                continue
+            }
+            if (/event_type=[^/]+\/$/.test(folder)) {
+                folders.push(folder)
+            } else if (depth < MAX_CURRENTS_PREFIX_DEPTH) {
+                folders.push(...(await listCurrentsFolders(s3, bucket, folder, depth + 1)))
+            }
+        }
+        continuationToken = response.NextContinuationToken
+    } while (continuationToken)
+
+    return folders
+}
+
+// Captures the Braze Currents events of an Avro file as events of the user with the same `external_id`,
+// which is the id `exportEvents` sends. Events of users without an external id are skipped.
+async function importCurrentsFile(s3: S3, bucket: string, key: string): Promise<void> {
+    const eventType = key.match(/event_type=([^/]+)\//)?.[1] ?? 'unknown'
+    const object = await s3.getObject({ Bucket: bucket, Key: key }).promise()
+    const records = decodeAvroContainer(object.Body as Buffer) as BrazeCurrentsEvent[]
+
+    let skippedCount = 0
+    for (const { id, external_user_id, time, ...properties } of records) {
+        if (!external_user_id) {
+            skippedCount++
+            continue
+        }
+        await posthog.capture(CURRENTS_EVENT_NAMES[eventType] ?? `Braze ${eventType}`, {
+            distinct_id: external_user_id,
+            timestamp: ISODateString(new Date(time * 1000)),
+            dedupe_key: getDedupeKey('currents', id),
+            braze_event_type: eventType,
+            ...properties,
+        })
+    }
+
+    console.log(
+        `Braze Currents import, captured ${
+            records.length - skippedCount
+        } events from ${key}, skipped ${skippedCount} events without an external id.`
+    )
+}
+
+// Imports the Currents files written since the last run. The last imported file of each folder is kept
+// in storage, and as file names start with their date the next files are listed after it.
+async function importCurrents(meta: BrazeMeta): Promise<void> {
+    const { config, global, storage } = meta
+    if (!global.currentsS3) {
+        return
+    }
+
+    let remainingFiles = MAX_CURRENTS_FILES_PER_RUN
+    const folders = await listCurrentsFolders(global.currentsS3, config.currentsS3Bucket, config.currentsS3Prefix ?? '')
+
+    for (let idx = 0; idx < folders.length; idx++) {
+        const folder = folders[idx]
+        const cursorKey = getCurrentsCursorStorageKey(folder)
+        let cursor = ((await storage.get(cursorKey, null)) as string | null) ?? undefined
+        // NOTE: each folder gets its share of the files left, so that a busy folder doesn't hold back the
+        // folders listed after it. A folder with fewer new files leaves the rest to the next folders.
+        let folderFiles = Math.max(1, Math.ceil(remainingFiles / (folders.length - idx)))
+
+        while (folderFiles > 0) {
+            const response = await global.currentsS3
+                .listObjectsV2({
+                    Bucket: config.currentsS3Bucket,
+                    Prefix: folder,
+                    StartAfter: cursor,
+                    MaxKeys: folderFiles,
+                })
+                .promise()
+            const keys = (response.Contents ?? []).flatMap(({ Key }) => (Key ? [Key] : []))
+            if (!keys.length) {
+                break
+            }
+
+            for (const key of keys) {
+                if (key.endsWith('.avro')) {
+                    await importCurrentsFile(global.currentsS3, config.currentsS3Bucket, key)
+                }
+                cursor = key
+                await storage.set(cursorKey, cursor)
+                folderFiles--
+                remainingFiles--
+            }
+        }
+    }
+}
+
+// NOTE: Reference: https://www.braze.com/docs/api/endpoints/export/user_data/post_users_identifier/
+type BrazeUserProfile = {
+    external_id: string
+    custom_attributes?: Record<string, unknown>
+    [field: string]: unknown
+}
+
+// Returns the allowlisted fields of a Braze profile as prefixed person properties. Custom attributes are
+// returned one by one when `custom_attributes` is allowlisted.
+export function getBrazeProfileProperties(profile: BrazeUserProfile, fields: string[], prefix: string): Properties {
+    const properties: Properties = {}
+    for (const field of fields) {
+        if (field === 'custom_attributes') {
+            for (const [name, value] of Object.entries(profile.custom_attributes ?? {})) {
+                properties[`${prefix}${name}`] = value
+            }
+        } else if (field !== 'external_id' && profile[field] !== undefined) {
+            properties[`${prefix}${field}`] = profile[field]
+        }
+    }
+    return properties
+}
+
+// Pulls the Braze profiles of the users queued by `exportEvents` since the last run, and captures their
+// allowlisted fields as person properties of the distinct id they were exported for.
+async function importBrazeProfiles(meta: BrazeMeta): Promise<void> {
+    const { config, cache, global } = meta
+    if (config.importBrazeProfiles !== 'Yes') {
+        return
+    }
+
+    const fields = (config.brazeProfileFields ?? '')
+        .split(',')
+        .map((field) => field.trim())
+        .filter(Boolean)
+    if (!fields.length) {
+        console.warn('Braze profile sync is enabled without any Braze Profile Fields to import.')
+        return
+    }
+
+    // NOTE: the latest distinct id of an external id wins, users exported several times are only pulled once
+    const distinctIds = new Map<string, string>()
+    for (const user of await cache.lpop(BRAZE_PROFILE_SYNC_QUEUE_KEY, MAX_BRAZE_PROFILE_SYNCS_PER_RUN)) {
+        const [externalId, distinctId] = JSON.parse(user) as [string, string]
+        if (!distinctIds.has(externalId)) {
+            distinctIds.set(externalId, distinctId)
+        }
+    }
+    const externalIds = [...distinctIds.keys()]
+    const prefix = getBrazeProfilePropertyPrefix(config)
+    let capturedCount = 0
+
+    for (let idx = 0; idx < externalIds.length; idx += BRAZE_PROFILE_SYNC_BATCH_SIZE) {
+        let response: Record<string, unknown> | null
+        try {
+            response = await global.fetchBraze(
+                '/users/export/ids',
+                {
+                    body: JSON.stringify({
+                        external_ids: externalIds.slice(idx, idx + BRAZE_PROFILE_SYNC_BATCH_SIZE),
+                        fields_to_export: ['external_id', ...fields],
+                    }),
+                },
+                'POST'
+            )
+        } catch (error) {
+            if (!(error instanceof BrazeRequestError)) {
+                throw error
+            }
+            // NOTE: the remaining users are dropped, they are queued again on their next exported event
+            console.error('Braze profile sync failed: ', error.message)
+            break
+        }
+
+        for (const profile of (response?.users ?? []) as BrazeUserProfile[]) {
+            const $set = getBrazeProfileProperties(profile, fields, prefix)
+            if (!Object.keys($set).length) {
+                continue
+            }
+            await posthog.capture('$set', {
+                distinct_id: distinctIds.get(profile.external_id) ?? profile.external_id,
+                $set,
+                [BRAZE_PROFILE_SYNC_PROPERTY]: true,
+            })
+            capturedCount++
+        }
+    }
+
+    if (externalIds.length) {
+        console.log(`Braze profile sync, captured ${capturedCount} profiles of ${externalIds.length} users.`)
+    }
+}
+
+const IMPORTS: Array<[keyof BrazeMeta['config'], (meta: BrazeMeta, endingAt: Date) => Promise<void>]> = [
+    ['importCampaigns', importCampaigns],
+    ['importCanvases', importCanvases],
+    ['importKPIs', importKPIs],
+    ['importCustomEvents', importCustomEvents],
+    ['importSegments', importSegments],
+    ['importSessions', importSessions],
+    ['importFeeds', importFeeds],
+]
+
+// Imports every enabled data series, up to the day ending at `endingAt`. Days that were
+// already imported are skipped, see `getImportWindows`.
+async function runImports(meta: BrazeMeta, endingAt: Date): Promise<void> {
+    for (const [toggle, runImport] of IMPORTS) {
+        if (meta.config[toggle] !== 'Yes') {
+            continue
+        }
+
+        // NOTE: a failing import (e.g. a missing API key permission) doesn't hold back the other ones,
+        // and as its watermark isn't moved the same days are imported again on the next run
+        try {
+            await runImport(meta, endingAt)
+        } catch (error) {
+            if (!(error instanceof BrazeRequestError)) {
+                throw error
+            }
+            console.error(`Braze import failed (${toggle}): `, error.message)
+        }
+    }
+}
+
+type PermissionProbe = {
+    permission: string
+    endpoint: string
+    // NOTE: probes with a body are POST requests
+    body?: Record<string, unknown>
+    isEnabled: (config: BrazeMeta['config']) => boolean
+}
+
+// NOTE: each permission of the enabled features is probed with a request that changes nothing. Braze only
+// validates the parameters of authorized requests, so the endpoints that need the id of a campaign, canvas,
+// etc. are probed without one, and a 400 response means that the permission is granted.
+const getImportPermissionProbes = (
+    entity: string,
+    toggle: keyof BrazeMeta['config'],
+    endpoints: string[]
+): PermissionProbe[] =>
+    endpoints.map((endpoint) => ({
+        permission: `${entity}.${endpoint}`,
+        endpoint: endpoint === 'list' ? `/${entity}/list?page=0` : `/${entity}/${endpoint}`,
+        isEnabled: (config) => config[toggle] === 'Yes',
+    }))
+
+const IMPORT_PERMISSION_PROBES: PermissionProbe[] = [
+    ...getImportPermissionProbes('campaigns', 'importCampaigns', ['data_series', 'details', 'list']),
+    ...getImportPermissionProbes('canvas', 'importCanvases', ['data_series', 'details', 'list']),
+    ...getImportPermissionProbes('events', 'importCustomEvents', ['data_series', 'list']),
+    ...getImportPermissionProbes('feed', 'importFeeds', ['data_series', 'details', 'list']),
+    ...BRAZE_KPIS.map((kpi) => ({
+        permission: `kpi.${kpi}.data_series`,
+        endpoint: `/kpi/${kpi}/data_series?length=1`,
+        isEnabled: (config: BrazeMeta['config']) => config.importKPIs === 'Yes',
+    })),
+    ...getImportPermissionProbes('segments', 'importSegments', ['data_series', 'details', 'list']),
+    ...getImportPermissionProbes('sessions', 'importSessions', ['data_series']),
+    {
+        permission: 'users.export.ids',
+        endpoint: '/users/export/ids',
+        body: { external_ids: [] },
+        isEnabled: (config) => config.importBrazeProfiles === 'Yes',
+    },
+]
+
+// NOTE: the export routes to other workspaces send the same requests as the export, with their own API keys
+const EXPORT_PERMISSION_PROBES: PermissionProbe[] = [
+    {
+        permission: 'users.delete',
+        endpoint: '/users/delete',
+        body: {},
+        isEnabled: (config) => config.forwardPersonChanges === 'Yes',
+    },
+    {
+        permission: 'users.identify',
+        endpoint: '/users/identify',
+        body: {},
+        isEnabled: (config) => !!config.userAliasLabel,
+    },
+    {
+        permission: 'users.merge',
+        endpoint: '/users/merge',
+        body: {},
+        isEnabled: (config) => config.forwardPersonChanges === 'Yes',
+    },
+    {
+        permission: 'users.track',
+        endpoint: '/users/track',
+        body: {},
+        isEnabled: (config) =>
+            !!(config.eventsToExport || config.userPropertiesToExport || config.purchaseEventsToExport),
+    },
+]
+
+// Probes the API key permissions needed by the enabled imports and by the export, and the API keys of the
+// export routes to other workspaces, so that a wrong key or REST endpoint and missing permissions fail the
+// setup with a clear error instead of later API errors.
+async function checkApiKeyPermissions(meta: BrazeMeta): Promise<void> {
+    const { config, global } = meta
+    const apiKeys = [
+        {
+            fetchBraze: global.fetchBraze,
+            probes: [...IMPORT_PERMISSION_PROBES, ...EXPORT_PERMISSION_PROBES],
+            route: '',
+        },
+        ...global.exportRoutes.flatMap(({ workspace }) =>
+            workspace
+                ? [{ fetchBraze: workspace.fetchBraze, probes: EXPORT_PERMISSION_PROBES, route: workspace.name }]
+                : []
+        ),
+    ]
+    const missingPermissions: string[] = []
+
+    for (const { fetchBraze, probes, route } of apiKeys) {
+        for (const { permission, endpoint, body, isEnabled } of probes) {
+            if (!isEnabled(config)) {
+                continue
+            }
+            try {
+                await fetchBraze(
+                    endpoint,
+                    body ? { body: JSON.stringify(body) } : {},
+                    body ? 'POST' : 'GET',
+                    `permission-check-${permission}`,
+                    false
+                )
+            } catch (error) {
+                if (!(error instanceof BrazeRequestError)) {
+                    throw error
+                }
+                if (error.status === 401) {
+                    throw new Error(
+                        route
+                            ? `Invalid Braze API key of the export route ${route}, check that it belongs to the Braze REST endpoint of the route.`
+                            : 'Invalid Braze API key, check that it belongs to the configured Braze REST endpoint.'
+                    )
+                }
+                if (error.status === 403) {
+                    missingPermissions.push(route ? `${permission} (export route ${route})` : permission)
+                    continue
+                }
+                if (error.status !== 400) {
+                    throw new Error(`Braze permission check of ${permission} failed: ${error.message}`)
+                }
+            }
+        }
+    }
+
+    if (missingPermissions.length) {
+        throw new Error(
+            `Braze API key is missing the permissions ${missingPermissions.join(
+                ', '
+            )}. Add them to the key, or turn off the imports and exports that need them.`
+        )
+    }
+}
+
+export async function runEveryDay(meta: BrazeMeta): Promise<void> {
+    await runImports(meta, getLastUTCMidnight())
+}
+
+export async function runEveryHour(meta: BrazeMeta): Promise<void> {
+    await replayDeadLetters(meta)
+    await importCurrents(meta)
+    await importBrazeProfiles(meta)
+}
+
+const BACKFILL_DONE = 'done'
+
+// NOTE: the key includes the start date so that changing it in the config starts a new backfill
+function getBackfillStorageKey(startDate: string): string {
+    return `backfill_${startDate}`
+}
+
+// NOTE: the running backfill extends its lock before each day it imports, so the lock of a backfill that
+// stopped (e.g. on a restart) expires and the next setup starts it again
+const BACKFILL_LOCK_TTL_SECONDS = 60 * 60
+
+function getBackfillLockKey(startDate: string): string {
+    return `backfill_lock_${startDate}`
+}
+
+// Takes the backfill lock, unless another backfill holds it.
+async function acquireBackfillLock(meta: BrazeMeta): Promise<boolean> {
+    const lockKey = getBackfillLockKey(meta.config.backfillStartDate)
+    if ((await meta.cache.incr(lockKey)) !== 1) {
+        return false
+    }
+    await meta.cache.expire(lockKey, BACKFILL_LOCK_TTL_SECONDS)
+    return true
+}
+
+// Backfills one day per run, walking backwards from the last day covered by `runEveryDay`
+// until the configured start date is reached. The end of the next day to import is kept in
+// storage so that the backfill can resume after a restart.
+export const jobs: BrazePlugin['jobs'] = {
+    backfillImports: async (_, meta) => {
+        const { cache, config, storage } = meta
+        const startDate = new Date(config.backfillStartDate)
+        if (isNaN(startDate.getTime())) {
+            console.error(`Invalid backfill start date: ${config.backfillStartDate}`)
+            return
+        }
+
+        const storageKey = getBackfillStorageKey(config.backfillStartDate)
+        const cursor = (await storage.get(storageKey, null)) as string | null
+        if (cursor === BACKFILL_DONE) {
+            return
+        }
+
+        const endingAt = cursor ? new Date(cursor) : getLastUTCMidnight()
+        if (endingAt.getTime() - ONE_DAY_MS < startDate.getTime()) {
+            console.log(`Braze backfill reached the start date ${config.backfillStartDate}.`)
+            await storage.set(storageKey, BACKFILL_DONE)
+            return
+        }
+
+        await cache.expire(getBackfillLockKey(config.backfillStartDate), BACKFILL_LOCK_TTL_SECONDS)
+        console.log(`Braze backfill, importing the day ending at ${ISODateString(endingAt)}.`)
+        await runImports(meta, endingAt)
+
+        // NOTE: a backfill started after the lock expired has moved on, this one stops to leave it alone
+        if ((await storage.get(storageKey, null)) !== cursor) {
+            console.warn(`Braze backfill of the day ending at ${ISODateString(endingAt)} ran twice, stopping.`)
+            return
+        }
+        await storage.set(storageKey, ISODateString(new Date(endingAt.getTime() - ONE_DAY_MS)))
+        await meta.jobs.backfillImports({}).runNow()
+    },
+    replayDeadLetters: async (_, meta) => {
+        await replayDeadLetters(meta)
+    },
+    // Logs what `exportEvents` would send to Braze for sample events, without sending anything. The events
+    // are a JSON array, e.g. `[{"event": "signed up", "distinct_id": "user_1", "properties": {"plan": "pro"}}]`.
+    previewExport: async ({ events }, meta) => {
+        let sampleEvents: unknown
+        try {
+            sampleEvents = typeof events === 'string' ? JSON.parse(events) : events
+        } catch (error) {
+            sampleEvents = null
+        }
+        if (!Array.isArray(sampleEvents) || !sampleEvents.length) {
+            console.error('Invalid Braze export preview, the events should be a JSON array of events.')
+            return
+        }
+
+        await _exportEvents(
+            sampleEvents.map((event: Partial<PluginEvent>) => ({
+                ip: null,
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+                ...event,
+            })) as PluginEvent[],
+            meta,
+            true
+        )
+    },
 }
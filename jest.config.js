@@ -6,6 +6,7 @@ module.exports = {
         '^.+\\.(js|jsx)$': 'babel-jest',
     },
     transformIgnorePatterns: [],
+    setupFiles: ['<rootDir>/tests/setup.ts'],
     globals: {
         'ts-jest': {
             // Without isolatedModules, tests run realy slow, so we enable them
@@ -54,7 +54,7 @@ import { RetryError } from '@posthog/plugin-scaffold'
 import { rest } from 'msw'
 import { setupServer } from 'msw/node'
 
-import { BrazeMeta, exportEvents, setupPlugin } from '../index'
+import { BrazeMeta, exportEvents, jobs, setupPlugin } from '../index'
 
 const server = setupServer()
 
@@ -80,6 +80,7 @@ test('exportEvents sends $set attributes and events to Braze', async () => {
     const meta = {
         config: {
             brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created',
             userPropertiesToExport: 'email,name',
         },
@@ -146,6 +147,7 @@ test('exportEvents multiple events to Braze', async () => {
     const meta = {
         config: {
             brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created,account_updated',
             userPropertiesToExport: 'email,name',
             importUserAttributesInAllEvents: 'Yes',
@@ -254,6 +256,7 @@ test('exportEvents user properties not sent', async () => {
     const meta = {
         config: {
             brazeEndpoint: 'US-01',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created',
         },
         global: {},
@@ -313,6 +316,7 @@ test('exportEvents user properties are passed for $identify event even if $ident
     const meta = {
         config: {
             brazeEndpoint: 'EU-01',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created',
             userPropertiesToExport: 'email',
             importUserAttributesInAllEvents: 'Yes',
@@ -369,6 +373,7 @@ test('exportEvents user properties are not passed for non-whitelisted events', a
     const meta = {
         config: {
             brazeEndpoint: 'US-01',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created',
             userPropertiesToExport: 'email',
             importUserAttributesInAllEvents: 'No',
@@ -428,6 +433,7 @@ test('Braze API error (e.g. 400) are not retried', async () => {
     const meta = {
         config: {
             brazeEndpoint: 'US-02',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created',
             userPropertiesToExport: 'email',
             importUserAttributesInAllEvents: 'Yes',
@@ -478,6 +484,7 @@ test('Braze offline error (500 response)', async () => {
     const meta = {
         config: {
             brazeEndpoint: 'US-02',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created',
             userPropertiesToExport: 'email',
             importUserAttributesInAllEvents: 'Yes',
@@ -528,6 +535,7 @@ test('Braze offline error (network error)', async () => {
     const meta = {
         config: {
             brazeEndpoint: 'US-02',
+            apiKey: 'test-api-key',
             eventsToExport: 'account created',
             userPropertiesToExport: 'email',
             importUserAttributesInAllEvents: 'Yes',
@@ -566,3 +574,1676 @@ test('Braze offline error (network error)', async () => {
         expect(e.message).toMatch('Fetch failed, retrying.')
     }
 })
+
+test('exportEvents sends anonymous users as user aliases and merges them on $identify', async () => {
+    const trackService = jest.fn()
+    const identifyService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success', attributes_processed: 1 }))
+        }),
+        rest.post('https://rest.iad-03.braze.com/users/identify', (req, res, ctx) => {
+            identifyService(req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success', aliases_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'pageview,$identify',
+            userPropertiesToExport: 'email',
+            importUserAttributesInAllEvents: 'Yes',
+            userAliasLabel: 'posthog_distinct_id',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: 'pageview',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: {},
+                distinct_id: 'anonymous_id',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+            {
+                event: '$identify',
+                timestamp: '2023-06-16T00:01:00.00Z',
+                properties: {
+                    $anon_distinct_id: 'anonymous_id',
+                    $set: { email: 'test@posthog' },
+                },
+                distinct_id: 'user_id',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+        ],
+        meta
+    )
+
+    expect(identifyService).toHaveBeenCalledWith({
+        aliases_to_identify: [
+            {
+                external_id: 'user_id',
+                user_alias: { alias_name: 'anonymous_id', alias_label: 'posthog_distinct_id' },
+            },
+        ],
+    })
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [{ email: 'test@posthog', external_id: 'user_id' }],
+        events: [
+            {
+                properties: {},
+                user_alias: { alias_name: 'anonymous_id', alias_label: 'posthog_distinct_id' },
+                name: 'pageview',
+                time: '2023-06-16T00:00:00.00Z',
+            },
+            {
+                properties: { $anon_distinct_id: 'anonymous_id' },
+                external_id: 'user_id',
+                name: '$identify',
+                time: '2023-06-16T00:01:00.00Z',
+            },
+        ],
+    })
+})
+
+test('exportEvents reads the external id from a person property', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success', attributes_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+            userPropertiesToExport: 'name',
+            userAliasLabel: 'posthog_distinct_id',
+            externalIdPersonProperty: 'crm_id',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: 'account created',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: {
+                    $set: { name: 'Test User', crm_id: 42 },
+                },
+                distinct_id: 'test',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [{ name: 'Test User', external_id: '42' }],
+        events: [
+            {
+                properties: {},
+                external_id: '42',
+                name: 'account created',
+                time: '2023-06-16T00:00:00.00Z',
+            },
+        ],
+    })
+})
+
+test('exportEvents sends purchase events to Braze purchases', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success', purchases_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: '',
+            purchaseEventsToExport: 'order completed',
+            purchaseProductIdProperty: 'sku',
+            purchasePriceProperty: 'amount',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: 'order completed',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { sku: 'plan_pro', amount: '49.90', currency: 'eur', quantity: 2, coupon: 'SUMMER' },
+                distinct_id: 'test',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+            {
+                event: 'order completed', // not exported, no product id
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { amount: 10 },
+                distinct_id: 'test',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [],
+        events: [],
+        purchases: [
+            {
+                external_id: 'test',
+                product_id: 'plan_pro',
+                currency: 'EUR',
+                price: 49.9,
+                quantity: 2,
+                time: '2023-06-16T00:00:00.00Z',
+                properties: { coupon: 'SUMMER' },
+            },
+        ],
+    })
+})
+
+test('exportEvents batches purchases by 75', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success', purchases_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            purchaseEventsToExport: 'order completed',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        Array.from({ length: 80 }, (_, idx) => ({
+            event: 'order completed',
+            timestamp: '2023-06-16T00:00:00.00Z',
+            properties: { product_id: `product_${idx}`, price: 1 },
+            distinct_id: 'test',
+            ip: '',
+            site_url: '',
+            team_id: 0,
+            now: new Date().toISOString(),
+        })),
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledTimes(2)
+    expect(trackService.mock.calls.map(([body]) => body.purchases.length).sort()).toEqual([5, 75])
+})
+
+test('exportEvents matches events and user properties with patterns', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success', attributes_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: ' checkout_*, !checkout_abandoned',
+            userPropertiesToExport: 'email, /^plan_/',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        ['checkout_started', 'checkout_abandoned', '$pageview'].map((event) => ({
+            event,
+            timestamp: '2023-06-16T00:00:00.00Z',
+            properties: { $set: { email: 'test@posthog', plan_name: 'pro', name: 'Test User' } },
+            distinct_id: 'test',
+            ip: '',
+            site_url: '',
+            team_id: 0,
+            now: new Date().toISOString(),
+        })),
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [{ email: 'test@posthog', plan_name: 'pro', external_id: 'test' }],
+        events: [
+            {
+                properties: {},
+                external_id: 'test',
+                name: 'checkout_started',
+                time: '2023-06-16T00:00:00.00Z',
+            },
+        ],
+    })
+})
+
+test('exportEvents renames and coerces properties with the property mapping', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success', attributes_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+            userPropertiesToExport: '$email,phone_number,birthday',
+            propertyMapping: JSON.stringify({
+                attributes: {
+                    $email: 'email',
+                    phone_number: { name: 'phone', type: 'phone' },
+                    birthday: { name: 'dob', type: 'date' },
+                },
+                events: { is_trial: { type: 'boolean' } },
+                eventPropertiesToAttributes: { $geoip_country_code: 'country' },
+            }),
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: 'account created',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: {
+                    $set: { $email: 'test@posthog', phone_number: '+1 (555) 123-4567', birthday: '1990-01-31' },
+                    is_trial: 'true',
+                    $geoip_country_code: 'FR',
+                },
+                distinct_id: 'test',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [
+            { email: 'test@posthog', phone: '+15551234567', dob: '1990-01-31', country: 'FR', external_id: 'test' },
+        ],
+        events: [
+            {
+                properties: { is_trial: true, $geoip_country_code: 'FR' },
+                external_id: 'test',
+                name: 'account created',
+                time: '2023-06-16T00:00:00.00Z',
+            },
+        ],
+    })
+})
+
+test('Braze rate limit error (429 response) is retried after Retry-After', async () => {
+    const mockService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-02.braze.com/users/track', (req, res, ctx) => {
+            mockService(req.body)
+            if (mockService.mock.calls.length === 1) {
+                return res(ctx.status(429), ctx.set('Retry-After', '0'), ctx.json({ message: 'rate limited' }))
+            }
+            return res(ctx.status(200), ctx.json({ message: 'success', attributes_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-02',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: 'account created',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: {},
+                distinct_id: 'test',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+        ],
+        meta
+    )
+
+    expect(mockService).toHaveBeenCalledTimes(2)
+})
+
+test('Braze rate limit error (429 response) with a long Retry-After is retried later', async () => {
+    server.use(
+        rest.post('https://rest.iad-02.braze.com/users/track', (_, res, ctx) => {
+            return res(ctx.status(429), ctx.set('Retry-After', '3600'), ctx.json({ message: 'rate limited' }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-02',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    try {
+        await exportEvents(
+            [
+                {
+                    event: 'account created',
+                    timestamp: '2023-06-16T00:00:00.00Z',
+                    properties: {},
+                    distinct_id: 'test',
+                    ip: '',
+                    site_url: '',
+                    team_id: 0,
+                    now: new Date().toISOString(),
+                },
+            ],
+            meta
+        )
+        throw new Error('Should not reach here')
+    } catch (e) {
+        expect(e instanceof RetryError).toBeTruthy()
+        // @ts-ignore
+        expect(e.message).toMatch('Rate limited by Braze, retry later. Request ID: ')
+    }
+})
+
+test('exportEvents maps partial Braze errors back to the rejected events', async () => {
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (_, res, ctx) => {
+            return res(
+                ctx.status(201),
+                ctx.json({
+                    message: 'success',
+                    errors: [
+                        { type: "'email' is not a valid email address", input_array: 'attributes', index: 1 },
+                        { type: "'time' is not a valid timestamp", input_array: 'events', index: 0 },
+                        { type: "'email' is not a valid email address", input_array: 'attributes', index: 2 },
+                    ],
+                })
+            )
+        })
+    )
+    console.warn = jest.fn()
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+            userPropertiesToExport: 'email',
+            importUserAttributesInAllEvents: 'Yes',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    const rejectedEvents = await exportEvents(
+        [
+            {
+                event: '$identify', // only exports attributes
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { $set: { email: 'test@posthog' } },
+                distinct_id: 'user_1',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+                uuid: 'event_1',
+            },
+            {
+                event: 'account created',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { $set: { email: 'not an email' } },
+                distinct_id: 'user_2',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+                uuid: 'event_2',
+            },
+            {
+                event: '$identify',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { $set: { email: 'still not an email' } },
+                distinct_id: 'user_3',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+                uuid: 'event_3',
+            },
+        ],
+        meta
+    )
+
+    expect(rejectedEvents).toEqual([
+        {
+            uuid: 'event_2',
+            distinct_id: 'user_2',
+            event: 'account created',
+            input_array: 'attributes',
+            type: "'email' is not a valid email address",
+        },
+        {
+            uuid: 'event_2',
+            distinct_id: 'user_2',
+            event: 'account created',
+            input_array: 'events',
+            type: "'time' is not a valid timestamp",
+        },
+        {
+            uuid: 'event_3',
+            distinct_id: 'user_3',
+            event: '$identify',
+            input_array: 'attributes',
+            type: "'email' is not a valid email address",
+        },
+    ])
+    expect(console.warn).toHaveBeenCalledWith(
+        'Braze rejected 3 items of 3 events.',
+        JSON.stringify({
+            errorCounts: { "'email' is not a valid email address": 2, "'time' is not a valid timestamp": 1 },
+            rejectedEvents,
+        }),
+        expect.any(String)
+    )
+})
+
+test('exportEvents merges the attributes of a user with the latest $set winning', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success', attributes_processed: 1 }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+            userPropertiesToExport: 'email,plan',
+            importUserAttributesInAllEvents: 'Yes',
+        },
+        global: {},
+    } as BrazeMeta
+
+    const getEvent = (distinct_id: string, timestamp: string, $set: Record<string, string>) => ({
+        event: 'account created',
+        timestamp,
+        properties: { $set },
+        distinct_id,
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+    })
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            getEvent('test', '2023-06-16T00:00:02.00Z', { email: 'latest@posthog' }),
+            getEvent('other', '2023-06-16T00:00:00.00Z', { email: 'other@posthog' }),
+            getEvent('test', '2023-06-16T00:00:01.00Z', { email: 'stale@posthog', plan: 'free' }),
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledTimes(1)
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [
+            { email: 'other@posthog', external_id: 'other' },
+            { email: 'latest@posthog', plan: 'free', external_id: 'test' },
+        ],
+        events: [
+            { properties: {}, external_id: 'other', name: 'account created', time: '2023-06-16T00:00:00.00Z' },
+            { properties: {}, external_id: 'test', name: 'account created', time: '2023-06-16T00:00:01.00Z' },
+            { properties: {}, external_id: 'test', name: 'account created', time: '2023-06-16T00:00:02.00Z' },
+        ],
+    })
+})
+
+test('exportEvents sends the batches of a user one after the other', async () => {
+    const requests: string[] = []
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', async (req, res, ctx) => {
+            const { events } = req.body as { events: { time: string }[] }
+            requests.push(`start ${events[0].time}`)
+            await new Promise((resolve) => setTimeout(resolve, 50))
+            requests.push(`end ${events[0].time}`)
+            return res(ctx.status(200), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        Array.from({ length: 80 }, (_, idx) => ({
+            event: 'account created',
+            timestamp: new Date(Date.UTC(2023, 5, 16) + (80 - idx) * 1000).toISOString(),
+            properties: {},
+            distinct_id: 'test',
+            ip: '',
+            site_url: '',
+            team_id: 0,
+            now: new Date().toISOString(),
+        })),
+        meta
+    )
+
+    expect(requests).toEqual([
+        'start 2023-06-16T00:00:01.00Z',
+        'end 2023-06-16T00:00:01.00Z',
+        'start 2023-06-16T00:01:16.00Z',
+        'end 2023-06-16T00:01:16.00Z',
+    ])
+})
+
+test('exportEvents only sends changed attributes in delta mode', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const store: Record<string, unknown> = {}
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            userPropertiesToExport: 'email,plan',
+            importUserAttributesInAllEvents: 'Yes',
+            onlySendChangedAttributes: 'Yes',
+            attributesResyncDays: '1',
+        },
+        global: {},
+        storage: {
+            get: async (key: string, defaultValue: unknown) => (key in store ? store[key] : defaultValue),
+            set: async (key: string, value: unknown) => {
+                store[key] = value
+            },
+        },
+    } as unknown as BrazeMeta
+
+    const exportSet = ($set: Record<string, string>) =>
+        exportEvents(
+            [
+                {
+                    event: '$identify',
+                    timestamp: '2023-06-16T00:00:00.00Z',
+                    properties: { $set },
+                    distinct_id: 'test',
+                    ip: '',
+                    site_url: '',
+                    team_id: 0,
+                    now: new Date().toISOString(),
+                },
+            ],
+            meta
+        )
+
+    await setupPlugin(meta)
+    await exportSet({ email: 'test@posthog', plan: 'free' })
+    await exportSet({ email: 'test@posthog', plan: 'paid' })
+    await exportSet({ email: 'test@posthog', plan: 'paid' })
+
+    expect(trackService.mock.calls.map(([body]) => body.attributes)).toEqual([
+        [{ email: 'test@posthog', plan: 'free', external_id: 'test' }],
+        [{ plan: 'paid', external_id: 'test' }],
+    ])
+
+    // The fingerprints kept in storage are used after a restart, until a full resync is due
+    await setupPlugin(meta)
+    await exportSet({ email: 'test@posthog', plan: 'paid' })
+    expect(trackService).toHaveBeenCalledTimes(2)
+
+    const fingerprints = store['attribute_fingerprints_test'] as { syncedAt: number }
+    store['attribute_fingerprints_test'] = { ...fingerprints, syncedAt: fingerprints.syncedAt - 24 * 60 * 60 * 1000 }
+    await setupPlugin(meta)
+    await exportSet({ email: 'test@posthog', plan: 'paid' })
+    expect(trackService).toHaveBeenLastCalledWith({
+        attributes: [{ email: 'test@posthog', plan: 'paid', external_id: 'test' }],
+        events: [],
+    })
+})
+
+test('exportEvents sends $set_once attributes once and removes $unset attributes', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(200), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const store: Record<string, unknown> = {}
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            userPropertiesToExport: 'email,phone,first_seen',
+            importUserAttributesInAllEvents: 'Yes',
+            purchaseEventsToExport: 'order completed',
+        },
+        global: {},
+        storage: {
+            get: async (key: string, defaultValue: unknown) => (key in store ? store[key] : defaultValue),
+            set: async (key: string, value: unknown) => {
+                store[key] = value
+            },
+        },
+    } as unknown as BrazeMeta
+
+    const exportProperties = (properties: Record<string, unknown>, event = '$set') =>
+        exportEvents(
+            [
+                {
+                    event,
+                    timestamp: '2023-06-16T00:00:00.00Z',
+                    properties,
+                    distinct_id: 'test',
+                    ip: '',
+                    site_url: '',
+                    team_id: 0,
+                    now: new Date().toISOString(),
+                },
+            ],
+            meta
+        )
+
+    await setupPlugin(meta)
+    await exportProperties({ $set_once: { first_seen: '2023-06-16', utm_source: 'ads' } })
+    await exportProperties({ $set_once: { first_seen: '2023-06-17' }, $set: { email: 'test@posthog' } })
+    await exportProperties({ $unset: ['phone', 'utm_source'] })
+    await exportProperties({ $unset: { email: true } })
+
+    expect(trackService.mock.calls.map(([body]) => body.attributes)).toEqual([
+        [{ first_seen: '2023-06-16', external_id: 'test' }],
+        [{ email: 'test@posthog', external_id: 'test' }],
+        [{ phone: null, external_id: 'test' }],
+        [{ email: null, external_id: 'test' }],
+    ])
+
+    // Purchases don't carry the `$set_once` and `$unset` objects in their properties
+    await exportProperties(
+        {
+            product_id: 'plan_pro',
+            price: 49.9,
+            coupon: 'SUMMER',
+            $set_once: { first_seen: '2023-06-18' },
+            $unset: ['phone'],
+        },
+        'order completed'
+    )
+    expect(trackService.mock.calls[4][0].purchases).toEqual([
+        expect.objectContaining({ product_id: 'plan_pro', properties: { coupon: 'SUMMER' } }),
+    ])
+})
+
+test('exportEvents forwards person merges and deletions when enabled', async () => {
+    const requests: [string, unknown][] = []
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/:endpoint', (req, res, ctx) => {
+            requests.push([req.params.endpoint as string, req.body])
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const getEvent = (event: string, distinct_id: string, properties: Record<string, unknown> = {}) => ({
+        event,
+        timestamp: '2023-06-16T00:00:00.00Z',
+        properties,
+        distinct_id,
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+    })
+    const events = [
+        getEvent('$merge_dangerously', 'user', { alias: 'duplicate' }),
+        getEvent('$create_alias', 'user', { alias: 'other' }),
+        getEvent('account created', 'deleted'),
+        getEvent('$delete_person', 'deleted'),
+    ]
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(events, meta)
+    expect(requests.map(([endpoint]) => endpoint)).toEqual(['track'])
+
+    requests.length = 0
+    meta.config.forwardPersonChanges = 'Yes'
+    await exportEvents(events, meta)
+    expect(requests).toEqual([
+        [
+            'merge',
+            {
+                merge_updates: [
+                    { identifier_to_merge: { external_id: 'duplicate' }, identifier_to_keep: { external_id: 'user' } },
+                    { identifier_to_merge: { external_id: 'other' }, identifier_to_keep: { external_id: 'user' } },
+                ],
+            },
+        ],
+        ['track', expect.objectContaining({ events: [expect.objectContaining({ external_id: 'deleted' })] })],
+        ['delete', { external_ids: ['deleted'], user_aliases: [] }],
+    ])
+})
+
+test('exportEvents identifies anonymous aliases merged into an identified user', async () => {
+    const requests: [string, unknown][] = []
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/:endpoint', (req, res, ctx) => {
+            requests.push([req.params.endpoint as string, req.body])
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            userAliasLabel: 'posthog',
+            forwardPersonChanges: 'Yes',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: '$create_alias',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { alias: 'anonymous', $user_id: 'user' },
+                distinct_id: 'user',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+        ],
+        meta
+    )
+
+    expect(requests).toEqual([
+        [
+            'identify',
+            {
+                aliases_to_identify: [
+                    { external_id: 'user', user_alias: { alias_name: 'anonymous', alias_label: 'posthog' } },
+                ],
+            },
+        ],
+    ])
+})
+
+test('exportEvents merges identified persons and deletes both profiles of a person with user aliases', async () => {
+    const requests: [string, unknown][] = []
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/:endpoint', (req, res, ctx) => {
+            requests.push([req.params.endpoint as string, req.body])
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            userAliasLabel: 'posthog',
+            forwardPersonChanges: 'Yes',
+        },
+        global: {},
+    } as BrazeMeta
+
+    const getEvent = (event: string, distinct_id: string, properties: Record<string, unknown>) => ({
+        event,
+        timestamp: '2023-06-16T00:00:00.00Z',
+        properties,
+        distinct_id,
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+    })
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [getEvent('$merge_dangerously', 'user', { alias: 'duplicate' }), getEvent('$delete_person', 'deleted', {})],
+        meta
+    )
+
+    expect(requests).toEqual([
+        [
+            'merge',
+            {
+                merge_updates: [
+                    { identifier_to_merge: { external_id: 'duplicate' }, identifier_to_keep: { external_id: 'user' } },
+                ],
+            },
+        ],
+        [
+            'delete',
+            {
+                external_ids: ['deleted'],
+                user_aliases: [{ alias_name: 'deleted', alias_label: 'posthog' }],
+            },
+        ],
+    ])
+})
+
+test('exportEvents sanitizes properties and logs the changes', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+    console.warn = jest.fn()
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+            sanitizeProperties: 'Yes',
+            dollarPropertiesToExport: '$browser',
+        },
+        global: {},
+    } as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: 'account created',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { $lib: 'web', $browser: 'Chrome', plan: { name: 'pro' } },
+                distinct_id: 'test',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+                uuid: 'event-1',
+            },
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [],
+        events: [
+            {
+                properties: { $browser: 'Chrome', 'plan.name': 'pro' },
+                external_id: 'test',
+                name: 'account created',
+                time: '2023-06-16T00:00:00.00Z',
+            },
+        ],
+    })
+    expect(console.warn).toHaveBeenCalledWith(
+        'Braze plugin sanitized 2 properties of 1 events.',
+        JSON.stringify({
+            propertyChanges: [
+                {
+                    uuid: 'event-1',
+                    event: 'account created',
+                    property: '$lib',
+                    change: 'removed',
+                    input_array: 'events',
+                },
+                {
+                    uuid: 'event-1',
+                    event: 'account created',
+                    property: 'plan',
+                    change: 'flattened',
+                    input_array: 'events',
+                },
+            ],
+        }),
+        expect.any(String)
+    )
+})
+
+test('exportEvents fills standard attributes from GeoIP and device properties', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            userPropertiesToExport: 'email,country',
+            importUserAttributesInAllEvents: 'Yes',
+            enrichGeoAndDeviceAttributes: 'Yes',
+        },
+        global: {},
+    } as BrazeMeta
+
+    const getEvent = (timestamp: string, properties: Record<string, unknown>) => ({
+        event: '$pageview',
+        timestamp,
+        properties,
+        distinct_id: 'test',
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+    })
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            getEvent('2023-06-16T00:00:01.00Z', {
+                $geoip_country_code: 'fr',
+                $geoip_city_name: 'Paris',
+                $geoip_latitude: 48.8566,
+                $geoip_longitude: 2.3522,
+                $browser_language: 'fr-FR',
+                $set: { email: 'test@posthog', language: 'en' },
+            }),
+            getEvent('2023-06-16T00:00:00.00Z', {
+                $geoip_country_code: 'DE',
+                $geoip_city_name: 'Berlin',
+                $browser_language: 'de_DE',
+            }),
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [
+            {
+                country: 'FR',
+                home_city: 'Paris',
+                current_location: { latitude: 48.8566, longitude: 2.3522 },
+                language: 'de',
+                email: 'test@posthog',
+                external_id: 'test',
+            },
+        ],
+        events: [],
+    })
+
+    // The country set explicitly by an earlier event isn't overwritten by the GeoIP country of a later one
+    await exportEvents(
+        [
+            getEvent('2023-06-17T00:00:00.00Z', { $set: { country: 'FR' } }),
+            getEvent('2023-06-17T00:00:01.00Z', { $geoip_country_code: 'US', $geoip_city_name: 'Boston' }),
+        ],
+        meta
+    )
+    expect(trackService).toHaveBeenLastCalledWith({
+        attributes: [{ country: 'FR', home_city: 'Boston', external_id: 'test' }],
+        events: [],
+    })
+})
+
+test('exportEvents maps consent properties to Braze subscription states', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            sanitizeProperties: 'Yes',
+            subscriptionMapping: JSON.stringify({
+                email_subscribe: 'marketing_opt_in',
+                push_subscribe: 'push_state',
+                subscription_groups: { 'sms-group': 'sms_opt_in', 'news-group': 'newsletter' },
+            }),
+        },
+        global: {},
+    } as BrazeMeta
+
+    const getEvent = (timestamp: string, $set: Record<string, unknown>) => ({
+        event: '$set',
+        timestamp,
+        properties: { $set },
+        distinct_id: 'test',
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+    })
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            getEvent('2023-06-16T00:00:00.00Z', { marketing_opt_in: true, sms_opt_in: 'yes', newsletter: 'maybe' }),
+            getEvent('2023-06-16T00:00:01.00Z', { push_state: 'subscribed', newsletter: false, email: 'ignored' }),
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [
+            {
+                email_subscribe: 'opted_in',
+                push_subscribe: 'subscribed',
+                subscription_groups: [
+                    { subscription_group_id: 'sms-group', subscription_state: 'subscribed' },
+                    { subscription_group_id: 'news-group', subscription_state: 'unsubscribed' },
+                ],
+                external_id: 'test',
+            },
+        ],
+        events: [],
+    })
+})
+
+test('exportEvents queues users for the Braze profile sync without echoing Braze properties', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const counters: Record<string, number> = {}
+    const lpush = jest.fn()
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: '*',
+            userPropertiesToExport: '*',
+            externalIdPersonProperty: 'user_id',
+            importBrazeProfiles: 'Yes',
+        },
+        global: {},
+        cache: {
+            lpush,
+            llen: jest.fn(async () => 0),
+            incr: jest.fn(async (key: string) => (counters[key] = (counters[key] ?? 0) + 1)),
+            expire: jest.fn(async () => true),
+        },
+    } as unknown as BrazeMeta
+
+    const getEvent = (event: string, properties: Record<string, unknown>) => ({
+        event,
+        timestamp: '2023-06-16T00:00:00.00Z',
+        properties,
+        distinct_id: 'test',
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+    })
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            getEvent('account created', {
+                $set: { user_id: 'user_1', email: 'test@posthog', braze_total_revenue: 10 },
+            }),
+            getEvent('$set', {
+                $set: { user_id: 'user_1', braze_email_subscribe: 'opted_in' },
+                braze_profile_sync: true,
+            }),
+        ],
+        meta
+    )
+
+    expect(trackService).toHaveBeenCalledTimes(1)
+    expect(trackService).toHaveBeenCalledWith({
+        attributes: [{ user_id: 'user_1', email: 'test@posthog', external_id: 'user_1' }],
+        events: [{ external_id: 'user_1', name: 'account created', properties: {}, time: '2023-06-16T00:00:00.00Z' }],
+    })
+    expect(lpush).toHaveBeenCalledWith('braze_profile_sync_queue', [JSON.stringify(['user_1', 'test'])])
+    expect(meta.cache.expire).toHaveBeenCalledWith('braze_profile_sync_queued_user_1', 3600)
+
+    // A user already waiting in the queue is not queued again
+    await exportEvents([getEvent('account created', { $set: { user_id: 'user_1' } })], meta)
+    expect(lpush).toHaveBeenCalledTimes(1)
+})
+
+test('exportEvents drops Braze profile syncs when the queue is full', async () => {
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (_, res, ctx) => {
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    const lpush = jest.fn()
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: '*',
+            userPropertiesToExport: '*',
+            importBrazeProfiles: 'Yes',
+        },
+        global: {},
+        cache: { lpush, llen: jest.fn(async () => 120000), incr: jest.fn(), expire: jest.fn() },
+    } as unknown as BrazeMeta
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            {
+                event: 'account created',
+                timestamp: '2023-06-16T00:00:00.00Z',
+                properties: { $set: { email: 'test@posthog' } },
+                distinct_id: 'test',
+                ip: '',
+                site_url: '',
+                team_id: 0,
+                now: new Date().toISOString(),
+            },
+        ],
+        meta
+    )
+
+    expect(lpush).not.toHaveBeenCalled()
+    expect(warn).toHaveBeenCalledWith('Braze profile sync queue is full, dropped 1 users.')
+    warn.mockRestore()
+})
+
+test('exportEvents logs the Braze requests instead of sending them in a dry run', async () => {
+    const trackService = jest.fn()
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined)
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService(req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const store: Record<string, unknown> = {}
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'account created',
+            userPropertiesToExport: 'email',
+            onlySendChangedAttributes: 'Yes',
+            dryRun: 'Yes',
+        },
+        global: {},
+        storage: {
+            get: async (key: string, defaultValue: unknown) => (key in store ? store[key] : defaultValue),
+            set: async (key: string, value: unknown) => {
+                store[key] = value
+            },
+        },
+    } as unknown as BrazeMeta
+
+    const getEvent = (event: string, properties: Record<string, unknown>) => ({
+        event,
+        timestamp: '2023-06-16T00:00:00.00Z',
+        properties,
+        distinct_id: 'test',
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+        uuid: `${event}-uuid`,
+    })
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            getEvent('account created', { $set: { email: 'test@posthog' }, plan: 'pro' }),
+            getEvent('$pageview', { $set: { email: 'test@posthog' } }),
+        ],
+        meta
+    )
+
+    expect(trackService).not.toHaveBeenCalled()
+    expect(store).toEqual({})
+    expect(log).toHaveBeenCalledWith(
+        'Braze dry run, POST /users/track with 1 attributes, 1 events:',
+        JSON.stringify({
+            attributes: [{ email: 'test@posthog', external_id: 'test' }],
+            events: [
+                {
+                    properties: { plan: 'pro' },
+                    external_id: 'test',
+                    name: 'account created',
+                    time: '2023-06-16T00:00:00.00Z',
+                },
+            ],
+        }),
+        expect.any(String)
+    )
+    expect(log).toHaveBeenCalledWith(
+        'Braze dry run, 1 /users/track batches, 1 of 2 events filtered out.',
+        JSON.stringify({
+            filteredEvents: [
+                {
+                    uuid: '$pageview-uuid',
+                    event: '$pageview',
+                    distinct_id: 'test',
+                    reason: 'not matched by Events to Export or Purchase Events to Export',
+                },
+            ],
+        }),
+        expect.any(String)
+    )
+
+    log.mockClear()
+    await jobs!.previewExport(
+        {
+            events: JSON.stringify([
+                { event: 'signed up', distinct_id: 'test', properties: { $set: { name: 'Test' } } },
+            ]),
+        },
+        { ...meta, config: { ...meta.config, dryRun: 'No' } }
+    )
+
+    expect(trackService).not.toHaveBeenCalled()
+    expect(log).toHaveBeenCalledWith(
+        'Braze dry run, 0 /users/track batches, 1 of 1 events filtered out.',
+        JSON.stringify({
+            filteredEvents: [
+                {
+                    event: 'signed up',
+                    distinct_id: 'test',
+                    reason: 'not matched by Events to Export or Purchase Events to Export',
+                },
+            ],
+        }),
+        expect.any(String)
+    )
+    log.mockRestore()
+})
+
+test('exportEvents routes events to Braze app ids and workspaces', async () => {
+    const trackService = jest.fn()
+
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+            trackService('US-03', req.headers.get('Authorization'), req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        }),
+        rest.post('https://rest.fra-01.braze.eu/users/track', (req, res, ctx) => {
+            trackService('EU-01', req.headers.get('Authorization'), req.body)
+            return res(ctx.status(201), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const store: Record<string, unknown> = {}
+    const meta = {
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            eventsToExport: 'order placed',
+            userPropertiesToExport: 'email',
+            onlySendChangedAttributes: 'Yes',
+            exportRoutes: JSON.stringify([
+                { name: 'ios', match: { $lib: 'posthog-ios' }, app_id: 'ios-app' },
+                { name: 'acme', match: { brand: 'acme' }, endpoint: 'EU-01', app_id: 'acme-app' },
+            ]),
+            exportRouteApiKeys: JSON.stringify({ acme: 'acme-api-key' }),
+        },
+        global: {},
+        storage: {
+            get: async (key: string, defaultValue: unknown) => (key in store ? store[key] : defaultValue),
+            set: async (key: string, value: unknown) => {
+                store[key] = value
+            },
+        },
+    } as unknown as BrazeMeta
+
+    const getEvent = (timestamp: string, properties: Record<string, unknown>) => ({
+        event: 'order placed',
+        timestamp,
+        properties: { $set: { email: 'test@posthog' }, ...properties },
+        distinct_id: 'test',
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+    })
+
+    await setupPlugin(meta)
+    await exportEvents(
+        [
+            getEvent('2023-06-16T00:00:00.00Z', { $lib: 'web' }),
+            getEvent('2023-06-16T00:00:01.00Z', { $lib: 'posthog-ios' }),
+            getEvent('2023-06-16T00:00:02.00Z', { $lib: 'web', brand: 'acme' }),
+        ],
+        meta
+    )
+
+    const getTrackedEvent = (timestamp: string, properties: Record<string, unknown>, app_id?: string) => ({
+        properties,
+        external_id: 'test',
+        ...(app_id ? { app_id } : {}),
+        name: 'order placed',
+        time: timestamp,
+    })
+    expect(trackService.mock.calls).toEqual([
+        [
+            'US-03',
+            'Bearer test-api-key',
+            {
+                attributes: [{ email: 'test@posthog', external_id: 'test' }],
+                events: [getTrackedEvent('2023-06-16T00:00:00.00Z', { $lib: 'web' })],
+            },
+        ],
+        [
+            'US-03',
+            'Bearer test-api-key',
+            // NOTE: the attributes are unchanged in the workspace of the plugin config
+            {
+                attributes: [],
+                events: [getTrackedEvent('2023-06-16T00:00:01.00Z', { $lib: 'posthog-ios' }, 'ios-app')],
+            },
+        ],
+        [
+            'EU-01',
+            'Bearer acme-api-key',
+            {
+                attributes: [{ email: 'test@posthog', external_id: 'test' }],
+                events: [getTrackedEvent('2023-06-16T00:00:02.00Z', { $lib: 'web', brand: 'acme' }, 'acme-app')],
+            },
+        ],
+    ])
+})
+
+describe('dead letters', () => {
+    const getDeadLetterMeta = (config: Partial<BrazeMeta['config']>, store: Record<string, unknown>, attempt = 1) => {
+        const counters: Record<string, number> = {}
+        return {
+            config: {
+                brazeEndpoint: 'US-03',
+                apiKey: 'test-api-key',
+                eventsToExport: 'account created',
+                userPropertiesToExport: 'email',
+                importUserAttributesInAllEvents: 'Yes',
+                deadLetterEvents: 'Yes',
+                ...config,
+            },
+            global: {},
+            storage: {
+                get: async (key: string, defaultValue: unknown) => (key in store ? store[key] : defaultValue),
+                set: async (key: string, value: unknown) => {
+                    store[key] = value
+                },
+            },
+            cache: {
+                incr: jest.fn(async (key: string) =>
+                    key.startsWith('export_attempts_') ? attempt : (counters[key] = (counters[key] ?? 0) + 1)
+                ),
+                expire: jest.fn(async (key: string, ttlSeconds: number) => {
+                    if (ttlSeconds === 0) {
+                        delete counters[key]
+                    }
+                    return true
+                }),
+            },
+            jobs: {
+                replayDeadLetters: () => ({ runNow: jest.fn() }),
+            },
+        } as unknown as BrazeMeta
+    }
+
+    const event = {
+        event: 'account created',
+        timestamp: '2023-06-16T00:00:00.00Z',
+        properties: { $set: { email: 'test@posthog' } },
+        distinct_id: 'test',
+        ip: '',
+        site_url: '',
+        team_id: 0,
+        now: new Date().toISOString(),
+        uuid: 'event-1',
+    }
+
+    test('events rejected with a 4xx error are stored and replayed once fixed', async () => {
+        const mockService = jest.fn()
+        let status = 403
+        server.use(
+            rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+                mockService(req.body)
+                return status === 403
+                    ? res(ctx.status(403), ctx.json({ message: 'Access denied' }))
+                    : res(ctx.status(201), ctx.json({ message: 'success' }))
+            })
+        )
+
+        const store: Record<string, unknown> = {}
+        const meta = getDeadLetterMeta({}, store)
+        await setupPlugin(meta)
+        await exportEvents([event], meta)
+
+        expect(store['dead_letters']).toEqual([
+            {
+                event,
+                body: {
+                    attributes: [{ email: 'test@posthog', external_id: 'test' }],
+                    events: [
+                        {
+                            external_id: 'test',
+                            name: 'account created',
+                            properties: {},
+                            time: '2023-06-16T00:00:00.00Z',
+                        },
+                    ],
+                },
+                error: expect.stringContaining('Braze API error 403: Access denied'),
+                failedAt: expect.any(String),
+            },
+        ])
+
+        // A replay failing again keeps the dead letter
+        await jobs!.replayDeadLetters({}, meta)
+        expect(store['dead_letters']).toHaveLength(1)
+
+        status = 201
+        await jobs!.replayDeadLetters({}, meta)
+        expect(mockService).toHaveBeenCalledTimes(3)
+        expect(store['dead_letters']).toEqual([])
+    })
+
+    test('events still failing on the last export attempt are stored', async () => {
+        server.use(
+            rest.post('https://rest.iad-03.braze.com/users/track', (_, res, ctx) => {
+                return res(ctx.status(500), ctx.json({ message: 'Internal error' }))
+            })
+        )
+
+        const store: Record<string, unknown> = {}
+        const meta = getDeadLetterMeta({}, store)
+        await setupPlugin(meta)
+        await expect(exportEvents([event], meta)).rejects.toThrowError(RetryError)
+        expect(store['dead_letters']).toBeUndefined()
+
+        const lastAttemptMeta = getDeadLetterMeta({}, store, 3)
+        await setupPlugin(lastAttemptMeta)
+        await exportEvents([event], lastAttemptMeta)
+        expect(store['dead_letters']).toEqual([
+            expect.objectContaining({ event, error: expect.stringContaining('Service is down, retry later.') }),
+        ])
+    })
+
+    test('dead letters of concurrent exports are all stored', async () => {
+        server.use(
+            rest.post('https://rest.iad-03.braze.com/users/track', (_, res, ctx) => {
+                return res(ctx.status(403), ctx.json({ message: 'Access denied' }))
+            })
+        )
+
+        const store: Record<string, unknown> = {}
+        const meta = getDeadLetterMeta({}, store)
+        await setupPlugin(meta)
+        await Promise.all([
+            exportEvents([event], meta),
+            exportEvents([{ ...event, uuid: 'event-2', distinct_id: 'test-2' }], meta),
+        ])
+
+        expect((store['dead_letters'] as { event: { uuid: string } }[]).map(({ event }) => event.uuid).sort()).toEqual([
+            'event-1',
+            'event-2',
+        ])
+    })
+
+    test('items rejected in an accepted request are not stored', async () => {
+        const mockService = jest.fn()
+        server.use(
+            rest.post('https://rest.iad-03.braze.com/users/track', (req, res, ctx) => {
+                mockService(req.body)
+                return res(
+                    ctx.status(201),
+                    ctx.json({
+                        message: 'success',
+                        errors: [{ type: "'email' is not a valid email address", input_array: 'attributes', index: 0 }],
+                    })
+                )
+            })
+        )
+
+        const store: Record<string, unknown> = {}
+        const meta = getDeadLetterMeta({}, store)
+        await setupPlugin(meta)
+        await exportEvents([event], meta)
+        expect(store['dead_letters']).toBeUndefined()
+
+        // The event accepted with the rejected attribute is not sent again
+        await jobs!.replayDeadLetters({}, meta)
+        expect(mockService).toHaveBeenCalledTimes(1)
+    })
+
+    test('dead letters are dropped above the max age and size', async () => {
+        server.use(
+            rest.post('https://rest.iad-03.braze.com/users/track', (_, res, ctx) => {
+                return res(ctx.status(400), ctx.json({ message: 'Bad request' }))
+            })
+        )
+
+        const deadLetter = (uuid: string, failedAt: string) => ({
+            event: { ...event, uuid },
+            body: { attributes: [], events: [] },
+            error: 'Braze API error 400: Bad request.',
+            failedAt,
+        })
+        const store: Record<string, unknown> = {
+            dead_letters: [
+                deadLetter('too-old', new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString()),
+                deadLetter('oldest', new Date(Date.now() - 60 * 60 * 1000).toISOString()),
+                deadLetter('newest', new Date(Date.now() - 60 * 1000).toISOString()),
+            ],
+        }
+        const meta = getDeadLetterMeta({ deadLetterMaxAgeDays: '2', deadLetterMaxSize: '2' }, store)
+        await setupPlugin(meta)
+        await exportEvents([event], meta)
+
+        expect((store['dead_letters'] as { event: { uuid: string } }[]).map(({ event }) => event.uuid)).toEqual([
+            'newest',
+            'event-1',
+        ])
+    })
+})
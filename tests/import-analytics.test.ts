@@ -0,0 +1,937 @@
+// The plugin imports Braze analytics data series into PostHog once a day via
+// the `runEveryDay` hook. For each enabled import type it pages through the
+// Braze list endpoint, fetches the details and a single day of the data series
+// for every item, and captures one PostHog event per item per day.
+//
+// Items without any activity in the previous day's time window are skipped.
+
+import { rest } from 'msw'
+import { setupServer } from 'msw/node'
+import { deflateRawSync } from 'zlib'
+
+import { BrazeMeta, decodeAvroContainer, jobs, runEveryDay, runEveryHour, setupPlugin } from '../index'
+
+const server = setupServer()
+
+const capture = jest.fn()
+
+beforeAll(() => {
+    console.error = jest.fn() // catch console errors
+    // @ts-ignore
+    global.posthog = { capture }
+    server.listen()
+})
+beforeEach(() => {
+    jest.useFakeTimers('modern')
+    jest.setSystemTime(new Date('2023-06-17T10:00:00Z'))
+})
+afterEach(() => {
+    jest.useRealTimers()
+    capture.mockReset()
+    server.resetHandlers()
+})
+afterAll(() => server.close())
+
+const getStorage = (store: Record<string, unknown> = {}) => ({
+    get: async (key: string, defaultValue: unknown) => (key in store ? store[key] : defaultValue),
+    set: async (key: string, value: unknown) => {
+        store[key] = value
+    },
+})
+
+const getCache = (counters: Record<string, number> = {}) => ({
+    incr: async (key: string) => (counters[key] = (counters[key] ?? 0) + 1),
+    expire: async () => true,
+})
+
+const getMeta = (config: Partial<BrazeMeta['config']>, store: Record<string, unknown> = {}): BrazeMeta =>
+    ({
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            importCampaigns: 'No',
+            importCanvases: 'No',
+            importCustomEvents: 'No',
+            importFeeds: 'No',
+            importKPIs: 'No',
+            importSegments: 'No',
+            importSessions: 'No',
+            ...config,
+        },
+        global: {},
+        storage: getStorage(store),
+        cache: getCache(),
+    } as unknown as BrazeMeta)
+
+test('runEveryDay imports campaign analytics for active campaigns', async () => {
+    const dataSeriesRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/campaigns/list', (req, res, ctx) => {
+            expect(req.url.searchParams.get('page')).toEqual('0')
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    campaigns: [
+                        { id: 'campaign_1', name: 'Welcome', tags: ['onboarding'], is_api_campaign: false },
+                        { id: 'campaign_2', name: 'Old promo', tags: [], is_api_campaign: false },
+                    ],
+                    message: 'success',
+                })
+            )
+        }),
+        rest.get('https://rest.iad-03.braze.com/campaigns/details', (req, res, ctx) => {
+            const campaignId = req.url.searchParams.get('campaign_id')
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    name: campaignId === 'campaign_1' ? 'Welcome' : 'Old promo',
+                    tags: campaignId === 'campaign_1' ? ['onboarding'] : [],
+                    channels: ['email', 'ios_push'],
+                    last_sent: campaignId === 'campaign_1' ? '2023-06-16T08:00:00Z' : '2023-01-01T08:00:00Z',
+                    message: 'success',
+                })
+            )
+        }),
+        rest.get('https://rest.iad-03.braze.com/campaigns/data_series', (req, res, ctx) => {
+            dataSeriesRequests(Object.fromEntries(req.url.searchParams.entries()))
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    data: [
+                        {
+                            time: '2023-06-16',
+                            unique_recipients: 120,
+                            conversions: 4,
+                            revenue: 19.5,
+                            messages: {
+                                email: [
+                                    { variation_name: 'A', sent: 80, unique_opens: 40, clicks: 12, unique_clicks: 10 },
+                                    { variation_name: 'B', sent: 20, unique_opens: 5, clicks: 2, unique_clicks: 2 },
+                                ],
+                                ios_push: [{ sent: 20, direct_opens: 3 }],
+                            },
+                        },
+                    ],
+                    message: 'success',
+                })
+            )
+        })
+    )
+
+    const meta = getMeta({ importCampaigns: 'Yes' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    // NOTE: campaign_2 did not send anything in the time window
+    expect(dataSeriesRequests).toHaveBeenCalledTimes(1)
+    expect(dataSeriesRequests).toHaveBeenCalledWith({
+        campaign_id: 'campaign_1',
+        length: '1',
+        ending_at: expect.any(String),
+    })
+
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('Braze Campaign', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'campaign:campaign_1:2023-06-16',
+        campaign_id: 'campaign_1',
+        campaign_name: 'Welcome',
+        campaign_tags: ['onboarding'],
+        channels: ['email', 'ios_push'],
+        date: '2023-06-16',
+        unique_recipients: 120,
+        conversions: 4,
+        revenue: 19.5,
+        sent: 120,
+        unique_opens: 45,
+        clicks: 14,
+        unique_clicks: 12,
+        direct_opens: 3,
+    })
+})
+
+test('runEveryDay pages through the campaigns list', async () => {
+    const meta = getMeta({ importCampaigns: 'Yes' })
+    // NOTE: fetchBraze is mocked to avoid sending a hundred detail requests through msw
+    meta.global.fetchBraze = jest.fn(async (endpoint: string) => {
+        const url = new URL(endpoint, 'https://rest.iad-03.braze.com')
+        if (url.pathname === '/campaigns/list') {
+            const page = Number(url.searchParams.get('page'))
+            const campaigns = Array.from({ length: page === 0 ? 100 : 1 }, (_, idx) => ({
+                id: `campaign_${page}_${idx}`,
+                name: 'Campaign',
+                tags: [],
+            }))
+            return { campaigns, message: 'success' }
+        }
+        return { name: 'Campaign', message: 'success' }
+    })
+
+    await runEveryDay(meta)
+
+    expect(meta.global.fetchBraze).toHaveBeenCalledWith('/campaigns/list?include_archived=false&page=0', {}, 'GET')
+    expect(meta.global.fetchBraze).toHaveBeenCalledWith('/campaigns/list?include_archived=false&page=1', {}, 'GET')
+    expect(meta.global.fetchBraze).toHaveBeenCalledTimes(2 + 101)
+    expect(capture).not.toHaveBeenCalled()
+})
+
+test('runEveryDay does not import campaigns when disabled', async () => {
+    const listRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/campaigns/list', (_, res, ctx) => {
+            listRequests()
+            return res(ctx.status(200), ctx.json({ campaigns: [], message: 'success' }))
+        })
+    )
+
+    const meta = getMeta({ importCampaigns: 'No' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(listRequests).not.toHaveBeenCalled()
+    expect(capture).not.toHaveBeenCalled()
+})
+
+test('runEveryDay imports canvas analytics with variant and step breakdowns', async () => {
+    const dataSeriesRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/canvas/list', (_, res, ctx) => {
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    canvases: [
+                        { id: 'canvas_1', name: 'Onboarding', tags: ['lifecycle'] },
+                        { id: 'canvas_2', name: 'Draft', tags: [] },
+                    ],
+                    message: 'success',
+                })
+            )
+        }),
+        rest.get('https://rest.iad-03.braze.com/canvas/details', (req, res, ctx) => {
+            const canvasId = req.url.searchParams.get('canvas_id')
+            if (canvasId === 'canvas_2') {
+                return res(ctx.status(200), ctx.json({ name: 'Draft', draft: true, message: 'success' }))
+            }
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    name: 'Onboarding',
+                    tags: ['lifecycle'],
+                    channels: ['email'],
+                    last_entry: '2023-06-16T12:00:00Z',
+                    variants: [{ id: 'variant_1', name: 'Variant 1' }],
+                    steps: [{ id: 'step_1', name: 'Welcome email', type: 'message', channels: ['email'] }],
+                    message: 'success',
+                })
+            )
+        }),
+        rest.get('https://rest.iad-03.braze.com/canvas/data_series', (req, res, ctx) => {
+            dataSeriesRequests(Object.fromEntries(req.url.searchParams.entries()))
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    data: {
+                        name: 'Onboarding',
+                        stats: [
+                            {
+                                time: '2023-06-16',
+                                total_stats: { entries: 50, conversions: 5, revenue: 42 },
+                                variant_stats: {
+                                    variant_1: { name: 'Variant 1', entries: 50, conversions: 5, revenue: 42 },
+                                },
+                                step_stats: {
+                                    step_1: {
+                                        name: 'Welcome email',
+                                        conversions: 3,
+                                        revenue: 30,
+                                        messages: { email: [{ sent: 48, opens: 20, clicks: 6 }] },
+                                    },
+                                },
+                            },
+                        ],
+                    },
+                    message: 'success',
+                })
+            )
+        })
+    )
+
+    const meta = getMeta({ importCanvases: 'Yes' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    // NOTE: canvas_2 had no entries in the time window
+    expect(dataSeriesRequests).toHaveBeenCalledTimes(1)
+    expect(dataSeriesRequests).toHaveBeenCalledWith({
+        canvas_id: 'canvas_1',
+        include_variant_breakdown: 'true',
+        include_step_breakdown: 'true',
+        length: '1',
+        ending_at: expect.any(String),
+    })
+
+    expect(capture).toHaveBeenCalledTimes(2)
+    expect(capture).toHaveBeenCalledWith('Braze Canvas', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'canvas:canvas_1:2023-06-16',
+        canvas_id: 'canvas_1',
+        canvas_name: 'Onboarding',
+        canvas_tags: ['lifecycle'],
+        channels: ['email'],
+        date: '2023-06-16',
+        entries: 50,
+        conversions: 5,
+        revenue: 42,
+        variants: [{ variant_id: 'variant_1', variant_name: 'Variant 1', entries: 50, conversions: 5, revenue: 42 }],
+    })
+    expect(capture).toHaveBeenCalledWith('Braze Canvas Step', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'canvas_step:canvas_1:step_1:2023-06-16',
+        canvas_id: 'canvas_1',
+        canvas_name: 'Onboarding',
+        canvas_tags: ['lifecycle'],
+        step_id: 'step_1',
+        step_name: 'Welcome email',
+        step_type: 'message',
+        channels: ['email'],
+        date: '2023-06-16',
+        conversions: 3,
+        revenue: 30,
+        sent: 48,
+        opens: 20,
+        clicks: 6,
+    })
+})
+
+test('runEveryDay imports KPIs for every configured app', async () => {
+    const kpiRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/kpi/:kpi/data_series', (req, res, ctx) => {
+            const kpi = req.params.kpi as string
+            const appId = req.url.searchParams.get('app_id')
+            kpiRequests(kpi, appId)
+            const values: Record<string, number> = { dau: 10, mau: 300, new_users: 2, uninstalls: 1 }
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    data: [{ time: '2023-06-16', [kpi]: appId === 'app_2' ? values[kpi] * 2 : values[kpi] }],
+                    message: 'success',
+                })
+            )
+        })
+    )
+
+    const meta = getMeta({ importKPIs: 'Yes', kpiAppIds: 'app_1, app_2' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(kpiRequests).toHaveBeenCalledTimes(8)
+    expect(capture).toHaveBeenCalledTimes(2)
+    expect(capture).toHaveBeenCalledWith('Braze KPI', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'kpi:app_1:2023-06-16',
+        app_id: 'app_1',
+        date: '2023-06-16',
+        dau: 10,
+        mau: 300,
+        new_users: 2,
+        uninstalls: 1,
+    })
+    expect(capture).toHaveBeenCalledWith('Braze KPI', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'kpi:app_2:2023-06-16',
+        app_id: 'app_2',
+        date: '2023-06-16',
+        dau: 20,
+        mau: 600,
+        new_users: 4,
+        uninstalls: 2,
+    })
+})
+
+test('runEveryDay imports KPIs for all apps combined by default', async () => {
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/kpi/:kpi/data_series', (req, res, ctx) => {
+            expect(req.url.searchParams.has('app_id')).toBeFalsy()
+            return res(
+                ctx.status(200),
+                ctx.json({ data: [{ time: '2023-06-16', [req.params.kpi as string]: 1 }], message: 'success' })
+            )
+        })
+    )
+
+    const meta = getMeta({ importKPIs: 'Yes' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('Braze KPI', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'kpi:all:2023-06-16',
+        app_id: null,
+        date: '2023-06-16',
+        dau: 1,
+        mau: 1,
+        new_users: 1,
+        uninstalls: 1,
+    })
+})
+
+test('runEveryDay imports custom events that were tracked in the time window', async () => {
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/events/list', (_, res, ctx) => {
+            return res(ctx.status(200), ctx.json({ events: ['purchase', 'unused event'], message: 'success' }))
+        }),
+        rest.get('https://rest.iad-03.braze.com/events/data_series', (req, res, ctx) => {
+            const count = req.url.searchParams.get('event') === 'purchase' ? 7 : 0
+            return res(ctx.status(200), ctx.json({ data: [{ time: '2023-06-16', count }], message: 'success' }))
+        })
+    )
+
+    const meta = getMeta({ importCustomEvents: 'Yes' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('Braze Custom Event', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'custom_event:purchase:2023-06-16',
+        event_name: 'purchase',
+        date: '2023-06-16',
+        count: 7,
+    })
+})
+
+test('runEveryDay imports segment sizes for tracked segments', async () => {
+    const detailsRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/segments/list', (_, res, ctx) => {
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    segments: [
+                        { id: 'segment_1', name: 'Power users', analytics_tracking_enabled: true, tags: ['vip'] },
+                        { id: 'segment_2', name: 'Untracked', analytics_tracking_enabled: false, tags: [] },
+                    ],
+                    message: 'success',
+                })
+            )
+        }),
+        rest.get('https://rest.iad-03.braze.com/segments/data_series', (req, res, ctx) => {
+            expect(req.url.searchParams.get('segment_id')).toEqual('segment_1')
+            return res(ctx.status(200), ctx.json({ data: [{ time: '2023-06-16', size: 1234 }], message: 'success' }))
+        }),
+        rest.get('https://rest.iad-03.braze.com/segments/details', (req, res, ctx) => {
+            detailsRequests(req.url.searchParams.get('segment_id'))
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    name: 'Power users',
+                    text_description: 'Users with more than 10 sessions',
+                    tags: ['vip'],
+                    message: 'success',
+                })
+            )
+        })
+    )
+
+    const meta = getMeta({ importSegments: 'Yes' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(detailsRequests.mock.calls).toEqual([['segment_1']])
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('Braze Segment', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'segment:segment_1:2023-06-16',
+        segment_id: 'segment_1',
+        segment_name: 'Power users',
+        segment_tags: ['vip'],
+        segment_description: 'Users with more than 10 sessions',
+        date: '2023-06-16',
+        size: 1234,
+    })
+})
+
+test('runEveryDay imports daily sessions', async () => {
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/sessions/data_series', (_, res, ctx) => {
+            return res(ctx.status(200), ctx.json({ data: [{ time: '2023-06-16', sessions: 321 }], message: 'success' }))
+        })
+    )
+
+    const meta = getMeta({ importSessions: 'Yes' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('Braze Sessions', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'sessions:all:2023-06-16',
+        date: '2023-06-16',
+        sessions: 321,
+    })
+})
+
+test('runEveryDay imports news feed cards with impressions or clicks in the time window', async () => {
+    const detailsRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/feed/list', (_, res, ctx) => {
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    cards: [
+                        { id: 'card_1', type: 'classic', title: 'New feature', tags: ['product'] },
+                        { id: 'card_2', type: 'banner', title: 'Stale card', tags: [] },
+                    ],
+                    message: 'success',
+                })
+            )
+        }),
+        rest.get('https://rest.iad-03.braze.com/feed/data_series', (req, res, ctx) => {
+            const active = req.url.searchParams.get('card_id') === 'card_1'
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    data: [
+                        {
+                            time: '2023-06-16',
+                            clicks: active ? 5 : 0,
+                            impressions: active ? 50 : 0,
+                            unique_clicks: active ? 4 : 0,
+                            unique_impressions: active ? 40 : 0,
+                        },
+                    ],
+                    message: 'success',
+                })
+            )
+        }),
+        rest.get('https://rest.iad-03.braze.com/feed/details', (req, res, ctx) => {
+            detailsRequests(req.url.searchParams.get('card_id'))
+            return res(
+                ctx.status(200),
+                ctx.json({ name: 'Feature launch', title: 'New feature', tags: ['product'], message: 'success' })
+            )
+        })
+    )
+
+    const meta = getMeta({ importFeeds: 'Yes' })
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(detailsRequests.mock.calls).toEqual([['card_1']])
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('Braze News Feed Card', {
+        timestamp: '2023-06-16T00:00:00.00Z',
+        dedupe_key: 'feed_card:card_1:2023-06-16',
+        card_id: 'card_1',
+        card_name: 'Feature launch',
+        card_title: 'New feature',
+        card_tags: ['product'],
+        card_type: 'classic',
+        date: '2023-06-16',
+        clicks: 5,
+        impressions: 50,
+        unique_clicks: 4,
+        unique_impressions: 40,
+    })
+})
+
+test('backfillImports walks backwards one day per run until the start date', async () => {
+    const dauRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/kpi/:kpi/data_series', (req, res, ctx) => {
+            const endingAt = req.url.searchParams.get('ending_at')
+            if (req.params.kpi === 'dau') {
+                dauRequests(endingAt)
+            }
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    data: [{ time: endingAt!.slice(0, 10), [req.params.kpi as string]: 1 }],
+                    message: 'success',
+                })
+            )
+        })
+    )
+
+    const store: Record<string, unknown> = {}
+    const runNow = jest.fn()
+    const meta = getMeta({ importKPIs: 'Yes', backfillStartDate: '2023-06-15' }, store)
+    // @ts-ignore
+    meta.jobs = { backfillImports: () => ({ runNow }) }
+
+    await setupPlugin(meta)
+    expect(runNow).toHaveBeenCalledTimes(1)
+
+    // NOTE: another worker setting the plugin up doesn't start a second backfill
+    await setupPlugin(meta)
+    expect(runNow).toHaveBeenCalledTimes(1)
+
+    await jobs!.backfillImports({}, meta)
+    await jobs!.backfillImports({}, meta)
+    await jobs!.backfillImports({}, meta)
+
+    expect(dauRequests.mock.calls).toEqual([['2023-06-17T00:00:00.00Z'], ['2023-06-16T00:00:00.00Z']])
+    expect(capture).toHaveBeenCalledTimes(2)
+    expect(store['backfill_2023-06-15']).toEqual('done')
+    // NOTE: the job only reschedules itself while there are days left to import
+    expect(runNow).toHaveBeenCalledTimes(3)
+
+    // NOTE: a finished backfill is not started again
+    await setupPlugin(meta)
+    expect(runNow).toHaveBeenCalledTimes(3)
+})
+
+test('backfillImports resumes from the stored cursor', async () => {
+    const dauRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/kpi/:kpi/data_series', (req, res, ctx) => {
+            const endingAt = req.url.searchParams.get('ending_at')
+            if (req.params.kpi === 'dau') {
+                dauRequests(endingAt)
+            }
+            return res(ctx.status(200), ctx.json({ data: [], message: 'success' }))
+        })
+    )
+
+    const store: Record<string, unknown> = {
+        'backfill_2023-06-01': '2023-06-10T00:00:00.00Z',
+    }
+    const meta = getMeta({ importKPIs: 'Yes', backfillStartDate: '2023-06-01' }, store)
+    // @ts-ignore
+    meta.jobs = { backfillImports: () => ({ runNow: jest.fn() }) }
+
+    await setupPlugin(meta)
+    await jobs!.backfillImports({}, meta)
+
+    expect(dauRequests.mock.calls).toEqual([['2023-06-10T00:00:00.00Z']])
+    expect(store['backfill_2023-06-01']).toEqual('2023-06-09T00:00:00.00Z')
+})
+
+test('backfillImports stops when another backfill imported the same day', async () => {
+    const store: Record<string, unknown> = {
+        'backfill_2023-06-01': '2023-06-10T00:00:00.00Z',
+    }
+    const runNow = jest.fn()
+    const meta = getMeta({ importKPIs: 'Yes', backfillStartDate: '2023-06-01' }, store)
+    // @ts-ignore
+    meta.jobs = { backfillImports: () => ({ runNow }) }
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/kpi/:kpi/data_series', (_, res, ctx) => {
+            // NOTE: the other backfill moves the cursor while this one imports the day
+            store['backfill_2023-06-01'] = '2023-06-09T00:00:00.00Z'
+            return res(ctx.status(200), ctx.json({ data: [], message: 'success' }))
+        })
+    )
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    await setupPlugin(meta)
+    await jobs!.backfillImports({}, meta)
+    warn.mockRestore()
+
+    expect(store['backfill_2023-06-01']).toEqual('2023-06-09T00:00:00.00Z')
+    // NOTE: only the run started by the setup, the job doesn't reschedule itself
+    expect(runNow).toHaveBeenCalledTimes(1)
+})
+
+test('runEveryDay does not import the same day twice', async () => {
+    const dataSeriesRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/sessions/data_series', (req, res, ctx) => {
+            dataSeriesRequests(Object.fromEntries(req.url.searchParams.entries()))
+            return res(ctx.status(200), ctx.json({ data: [{ time: '2023-06-16', sessions: 321 }], message: 'success' }))
+        })
+    )
+
+    const store: Record<string, unknown> = {}
+    const meta = getMeta({ importSessions: 'Yes' }, store)
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+    await runEveryDay(meta)
+
+    expect(dataSeriesRequests).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(store['watermark_sessions_all']).toEqual({ from: '2023-06-16', to: '2023-06-16' })
+})
+
+test('runEveryDay imports every missing day since the watermark', async () => {
+    const dataSeriesRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/events/list', (_, res, ctx) => {
+            return res(ctx.status(200), ctx.json({ events: ['purchase'], message: 'success' }))
+        }),
+        rest.get('https://rest.iad-03.braze.com/events/data_series', (req, res, ctx) => {
+            dataSeriesRequests(Object.fromEntries(req.url.searchParams.entries()))
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    data: [
+                        { time: '2023-06-15', count: 3 },
+                        { time: '2023-06-16', count: 7 },
+                    ],
+                    message: 'success',
+                })
+            )
+        })
+    )
+
+    const store: Record<string, unknown> = {
+        watermark_custom_events_purchase: { from: '2023-06-01', to: '2023-06-14' },
+    }
+    const meta = getMeta({ importCustomEvents: 'Yes' }, store)
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(dataSeriesRequests).toHaveBeenCalledWith({
+        event: 'purchase',
+        unit: 'day',
+        length: '2',
+        ending_at: '2023-06-17T00:00:00.00Z',
+    })
+    expect(capture.mock.calls.map(([, { dedupe_key }]) => dedupe_key)).toEqual([
+        'custom_event:purchase:2023-06-15',
+        'custom_event:purchase:2023-06-16',
+    ])
+    expect(store['watermark_custom_events_purchase']).toEqual({ from: '2023-06-01', to: '2023-06-16' })
+})
+
+test('runEveryDay splits long gaps into windows of at most 14 days', async () => {
+    const dataSeriesRequests = jest.fn()
+
+    server.use(
+        rest.get('https://rest.iad-03.braze.com/sessions/data_series', (req, res, ctx) => {
+            dataSeriesRequests(req.url.searchParams.get('length'), req.url.searchParams.get('ending_at'))
+            return res(ctx.status(200), ctx.json({ data: [], message: 'success' }))
+        })
+    )
+
+    const store: Record<string, unknown> = {
+        watermark_sessions_all: { from: '2023-05-01', to: '2023-05-31' },
+    }
+    const meta = getMeta({ importSessions: 'Yes' }, store)
+    await setupPlugin(meta)
+    await runEveryDay(meta)
+
+    expect(dataSeriesRequests.mock.calls).toEqual([
+        ['14', '2023-06-15T00:00:00.00Z'],
+        ['2', '2023-06-17T00:00:00.00Z'],
+    ])
+    expect(store['watermark_sessions_all']).toEqual({ from: '2023-05-01', to: '2023-06-16' })
+})
+
+// Encodes records as an Avro object container file, for a schema of string, nullable string and long fields.
+const encodeAvroLong = (value: number): Buffer => {
+    const bytes: number[] = []
+    let zigzag = value >= 0 ? value * 2 : -value * 2 - 1
+    do {
+        const byte = zigzag % 128
+        zigzag = Math.floor(zigzag / 128)
+        bytes.push(zigzag > 0 ? byte | 0x80 : byte)
+    } while (zigzag > 0)
+    return Buffer.from(bytes)
+}
+const encodeAvroString = (value: string): Buffer =>
+    Buffer.concat([encodeAvroLong(Buffer.byteLength(value)), Buffer.from(value)])
+
+const CURRENTS_SCHEMA = {
+    type: 'record',
+    name: 'EmailOpen',
+    namespace: 'com.braze',
+    fields: [
+        { name: 'id', type: 'string' },
+        { name: 'external_user_id', type: ['null', 'string'] },
+        { name: 'time', type: 'long' },
+        { name: 'campaign_name', type: ['null', 'string'] },
+    ],
+}
+
+const encodeCurrentsFile = (
+    records: Array<{ id: string; external_user_id: string | null; time: number; campaign_name: string }>
+): Buffer => {
+    const sync = Buffer.alloc(16, 7)
+    const data = Buffer.concat(
+        records.flatMap(({ id, external_user_id, time, campaign_name }) => [
+            encodeAvroString(id),
+            external_user_id === null
+                ? encodeAvroLong(0)
+                : Buffer.concat([encodeAvroLong(1), encodeAvroString(external_user_id)]),
+            encodeAvroLong(time),
+            encodeAvroLong(1),
+            encodeAvroString(campaign_name),
+        ])
+    )
+    const compressed = deflateRawSync(data)
+    return Buffer.concat([
+        Buffer.from('Obj\x01', 'binary'),
+        encodeAvroLong(2),
+        encodeAvroString('avro.schema'),
+        encodeAvroString(JSON.stringify(CURRENTS_SCHEMA)),
+        encodeAvroString('avro.codec'),
+        encodeAvroString('deflate'),
+        encodeAvroLong(0),
+        sync,
+        encodeAvroLong(records.length),
+        encodeAvroLong(compressed.length),
+        compressed,
+        sync,
+    ])
+}
+
+test('decodeAvroContainer decodes the records of an Avro file', () => {
+    const records = [
+        { id: 'event_1', external_user_id: 'user_1', time: 1686909600, campaign_name: 'Welcome' },
+        { id: 'event_2', external_user_id: null, time: -1, campaign_name: 'Ünïcode' },
+    ]
+
+    expect(decodeAvroContainer(encodeCurrentsFile(records))).toEqual(records)
+    expect(() => decodeAvroContainer(Buffer.from('not avro'))).toThrow(
+        'Invalid Avro file, the magic bytes are missing.'
+    )
+})
+
+test('runEveryHour imports Braze Currents files from S3 after the stored cursor', async () => {
+    // NOTE: the AWS SDK relies on timers
+    jest.useRealTimers()
+
+    const folder = 'currents/dataexport.prod-01.S3.integration.1/event_type=users.messages.email.Open/'
+    const files: Record<string, Buffer> = {
+        [`${folder}date=2023-06-16-09/old.avro`]: encodeCurrentsFile([
+            { id: 'old', external_user_id: 'user_1', time: 1686906000, campaign_name: 'Welcome' },
+        ]),
+        [`${folder}date=2023-06-16-10/new.avro`]: encodeCurrentsFile([
+            { id: 'event_1', external_user_id: 'user_1', time: 1686909600, campaign_name: 'Welcome' },
+            { id: 'event_2', external_user_id: null, time: 1686909600, campaign_name: 'Welcome' },
+        ]),
+    }
+
+    const toXml = (tag: string, values: string[]) => values.map((value) => `<${tag}>${value}</${tag}>`).join('')
+    server.use(
+        rest.get('http://localhost:9000/currents-bucket', (req, res, ctx) => {
+            const prefix = req.url.searchParams.get('prefix') ?? ''
+            const startAfter = req.url.searchParams.get('start-after') ?? ''
+            const keys = Object.keys(files).filter((key) => key.startsWith(prefix))
+            const contents = req.url.searchParams.get('delimiter')
+                ? ''
+                : toXml(
+                      'Contents',
+                      keys.filter((key) => key > startAfter).map((key) => `<Key>${key}</Key>`)
+                  )
+            const prefixes = req.url.searchParams.get('delimiter')
+                ? toXml(
+                      'CommonPrefixes',
+                      [...new Set(keys.map((key) => prefix + key.slice(prefix.length).split('/')[0] + '/'))].map(
+                          (commonPrefix) => `<Prefix>${commonPrefix}</Prefix>`
+                      )
+                  )
+                : ''
+            return res(
+                ctx.status(200),
+                ctx.set('Content-Type', 'application/xml'),
+                ctx.body(
+                    `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>currents-bucket</Name><IsTruncated>false</IsTruncated>${contents}${prefixes}</ListBucketResult>`
+                )
+            )
+        }),
+        rest.get('http://localhost:9000/currents-bucket/*', (req, res, ctx) => {
+            const key = decodeURIComponent(req.url.pathname.replace('/currents-bucket/', ''))
+            return res(ctx.status(200), ctx.body(files[key]))
+        })
+    )
+
+    const store: Record<string, unknown> = {
+        [`currents_cursor_${folder}`]: `${folder}date=2023-06-16-09/old.avro`,
+    }
+    const meta = getMeta(
+        {
+            currentsS3Bucket: 'currents-bucket',
+            currentsS3Prefix: 'currents/',
+            currentsS3Endpoint: 'http://localhost:9000',
+            currentsAwsAccessKeyId: 'key',
+            currentsAwsSecretAccessKey: 'secret',
+        },
+        store
+    )
+
+    await setupPlugin(meta)
+    await runEveryHour(meta)
+
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('Braze Email Opened', {
+        distinct_id: 'user_1',
+        timestamp: '2023-06-16T10:00:00.00Z',
+        dedupe_key: 'currents:event_1',
+        braze_event_type: 'users.messages.email.Open',
+        campaign_name: 'Welcome',
+    })
+    expect(store[`currents_cursor_${folder}`]).toEqual(`${folder}date=2023-06-16-10/new.avro`)
+
+    capture.mockReset()
+    await runEveryHour(meta)
+    expect(capture).not.toHaveBeenCalled()
+})
+
+test('runEveryHour captures the allowlisted fields of the queued Braze profiles', async () => {
+    const exportService = jest.fn()
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/export/ids', (req, res, ctx) => {
+            exportService(req.body)
+            return res(
+                ctx.status(201),
+                ctx.json({
+                    users: [
+                        {
+                            external_id: 'user_1',
+                            email_subscribe: 'opted_in',
+                            total_revenue: 42,
+                            custom_attributes: { plan: 'pro' },
+                        },
+                        { external_id: 'user_2' },
+                    ],
+                    invalid_user_ids: [],
+                    message: 'success',
+                })
+            )
+        })
+    )
+
+    const lpop = jest.fn(async () => [
+        JSON.stringify(['user_1', 'distinct_1']),
+        JSON.stringify(['user_2', 'distinct_2']),
+        JSON.stringify(['user_1', 'distinct_1']),
+    ])
+    const meta = {
+        ...getMeta({
+            importBrazeProfiles: 'Yes',
+            brazeProfileFields: 'email_subscribe, total_revenue, custom_attributes',
+        }),
+        cache: { lpop },
+    } as unknown as BrazeMeta
+
+    await setupPlugin(meta)
+    await runEveryHour(meta)
+
+    expect(lpop).toHaveBeenCalledWith('braze_profile_sync_queue', 5000)
+    expect(exportService).toHaveBeenCalledTimes(1)
+    expect(exportService).toHaveBeenCalledWith({
+        external_ids: ['user_1', 'user_2'],
+        fields_to_export: ['external_id', 'email_subscribe', 'total_revenue', 'custom_attributes'],
+    })
+    expect(capture).toHaveBeenCalledTimes(1)
+    expect(capture).toHaveBeenCalledWith('$set', {
+        distinct_id: 'distinct_1',
+        $set: { braze_email_subscribe: 'opted_in', braze_total_revenue: 42, braze_plan: 'pro' },
+        braze_profile_sync: true,
+    })
+})
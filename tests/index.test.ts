@@ -1,9 +1,261 @@
+import { RetryError } from '@posthog/plugin-scaffold'
+import { Headers } from 'node-fetch'
+
 import {
+    coercePropertyValue,
+    createLRUCache,
+    createRequestScheduler,
+    getBrazeProfileProperties,
     ISODateString,
+    parseExportRoutes,
+    parseNameList,
+    parsePropertyMapping,
+    parseSubscriptionMapping,
+    sanitizeProperties,
 } from '../index'
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 
 test('ISODateString', () => {
     expect(ISODateString(new Date(1648458820359))).toEqual('2022-03-28T09:13:40.359Z')
-})
\ No newline at end of file
+})
+
+test('parseNameList matches exact names and trims whitespace', () => {
+    const matches = parseNameList('account created, $identify ,')
+    expect(matches('account created')).toBeTruthy()
+    expect(matches('$identify')).toBeTruthy()
+    expect(matches('account')).toBeFalsy()
+    expect(matches('')).toBeFalsy()
+})
+
+test('parseNameList matches globs and regular expressions', () => {
+    const matches = parseNameList('checkout_*,/^plan (started|upgraded)$/i,step_?')
+    expect(matches('checkout_started')).toBeTruthy()
+    expect(matches('checkout_')).toBeTruthy()
+    expect(matches('pre_checkout_started')).toBeFalsy()
+    expect(matches('Plan Upgraded')).toBeTruthy()
+    expect(matches('plan cancelled')).toBeFalsy()
+    expect(matches('step_1')).toBeTruthy()
+    expect(matches('step_10')).toBeFalsy()
+})
+
+test('parseNameList supports exclusions', () => {
+    const matches = parseNameList('*,!$pageview,!$feature_flag_*')
+    expect(matches('account created')).toBeTruthy()
+    expect(matches('$pageview')).toBeFalsy()
+    expect(matches('$feature_flag_called')).toBeFalsy()
+})
+
+test('parseNameList matches nothing when empty', () => {
+    expect(parseNameList('')('account created')).toBeFalsy()
+    expect(parseNameList(undefined)('account created')).toBeFalsy()
+    expect(parseNameList('!$pageview')('account created')).toBeFalsy()
+})
+
+test('parseNameList throws on invalid regular expressions', () => {
+    expect(() => parseNameList('/(unclosed/')).toThrow('Invalid regular expression in export list: /(unclosed/')
+})
+
+test('parsePropertyMapping parses names and rules', () => {
+    expect(
+        parsePropertyMapping(
+            JSON.stringify({
+                attributes: { $email: 'email', phone_number: { name: 'phone', type: 'phone' } },
+                events: { is_trial: { type: 'boolean' } },
+            })
+        )
+    ).toEqual({
+        attributes: {
+            $email: { name: 'email', type: undefined },
+            phone_number: { name: 'phone', type: 'phone' },
+        },
+        events: { is_trial: { name: undefined, type: 'boolean' } },
+        eventPropertiesToAttributes: {},
+    })
+    expect(parsePropertyMapping('')).toEqual({ attributes: {}, events: {}, eventPropertiesToAttributes: {} })
+})
+
+test('parsePropertyMapping throws on invalid mappings', () => {
+    expect(() => parsePropertyMapping('{')).toThrow('Invalid property mapping, it should be a JSON object.')
+    expect(() => parsePropertyMapping('{"attributes":{"age":{"type":"integer"}}}')).toThrow(
+        'Invalid property mapping type for age: integer'
+    )
+})
+
+test('coercePropertyValue', () => {
+    expect(coercePropertyValue(42, 'string', 'name')).toEqual('42')
+    expect(coercePropertyValue('42.5', 'number', 'score')).toEqual(42.5)
+    expect(coercePropertyValue('n/a', 'number', 'score')).toEqual('n/a')
+    expect(coercePropertyValue('Yes', 'boolean', 'is_pro')).toEqual(true)
+    expect(coercePropertyValue(0, 'boolean', 'is_pro')).toEqual(false)
+    expect(coercePropertyValue('maybe', 'boolean', 'is_pro')).toEqual('maybe')
+    expect(coercePropertyValue('2022-03-28T09:13:40.359Z', 'date', 'signed_up_at')).toEqual('2022-03-28T09:13:40.359Z')
+    expect(coercePropertyValue('2022-03-28T09:13:40.005Z', 'date', 'signed_up_at')).toEqual('2022-03-28T09:13:40.005Z')
+    expect(coercePropertyValue(1648458820359, 'date', 'dob')).toEqual('2022-03-28')
+    expect(coercePropertyValue('not a date', 'date', 'dob')).toEqual('not a date')
+    expect(coercePropertyValue('+1 (555) 123-4567', 'phone', 'phone')).toEqual('+15551234567')
+    expect(coercePropertyValue('0049 30 1234567', 'phone', 'phone')).toEqual('+49301234567')
+})
+
+test('createRequestScheduler caps the number of in-flight requests', async () => {
+    const scheduler = createRequestScheduler(3)
+    let inFlight = 0
+    let maxInFlight = 0
+
+    const results = await Promise.all(
+        Array.from({ length: 10 }, (_, idx) =>
+            scheduler.schedule(async () => {
+                inFlight++
+                maxInFlight = Math.max(maxInFlight, inFlight)
+                await new Promise((resolve) => setTimeout(resolve, 5))
+                inFlight--
+                return idx
+            })
+        )
+    )
+
+    expect(results).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+    expect(maxInFlight).toEqual(3)
+})
+
+test('createRequestScheduler holds requests back until the rate limit resets', async () => {
+    const scheduler = createRequestScheduler(3)
+    const request = jest.fn(async () => null)
+
+    scheduler.updateRateLimit(
+        new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(Date.now() / 1000 + 3600) })
+    )
+    await expect(scheduler.schedule(request)).rejects.toThrow(RetryError)
+    expect(request).not.toHaveBeenCalled()
+
+    scheduler.updateRateLimit(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '0' }))
+    await scheduler.schedule(request)
+    expect(request).toHaveBeenCalledTimes(1)
+})
+
+test('createLRUCache evicts the least recently used key', () => {
+    const cache = createLRUCache<number>(2)
+
+    cache.set('a', 1)
+    cache.set('b', 2)
+    expect(cache.get('a')).toEqual(1)
+    cache.set('c', 3)
+
+    expect(cache.get('a')).toEqual(1)
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('c')).toEqual(3)
+})
+
+test('sanitizeProperties makes properties fit Braze limits', () => {
+    const { properties, changes } = sanitizeProperties(
+        {
+            $current_url: 'https://posthog.com',
+            $browser: 'Chrome',
+            plan: { name: 'pro', seats: { used: 3 } },
+            items: [{ id: 1 }],
+            tags: ['a', 'b'],
+            description: 'x'.repeat(300),
+            trial_ends_at: '2023-06-16 10:00:00Z',
+            signed_up_at: '2023-06-16T10:00:00.005Z',
+            dob: '1990-01-31',
+        },
+        parseNameList('$browser')
+    )
+
+    expect(properties).toEqual({
+        $browser: 'Chrome',
+        'plan.name': 'pro',
+        'plan.seats.used': 3,
+        items: '[{"id":1}]',
+        tags: ['a', 'b'],
+        description: 'x'.repeat(255),
+        trial_ends_at: '2023-06-16T10:00:00.000Z',
+        signed_up_at: '2023-06-16T10:00:00.005Z',
+        dob: '1990-01-31',
+    })
+    expect(changes).toEqual([
+        { property: '$current_url', change: 'removed' },
+        { property: 'plan', change: 'flattened' },
+        { property: 'items', change: 'stringified' },
+        { property: 'description', change: 'truncated' },
+        { property: 'trial_ends_at', change: 'converted_date' },
+    ])
+})
+
+test('sanitizeProperties drops the largest properties above the payload limit', () => {
+    const properties = Object.fromEntries(Array.from({ length: 300 }, (_, idx) => [`property_${idx}`, 'x'.repeat(200)]))
+    const { properties: sanitized, changes } = sanitizeProperties({ ...properties, small: 1 }, null)
+
+    expect(Buffer.byteLength(JSON.stringify(sanitized))).toBeLessThanOrEqual(50 * 1024)
+    expect(sanitized.small).toEqual(1)
+    expect(changes.length).toBeGreaterThan(0)
+    expect(changes.every(({ change }) => change === 'dropped_payload_size')).toBe(true)
+})
+
+test('parseSubscriptionMapping parses properties and subscription groups', () => {
+    expect(parseSubscriptionMapping(undefined)).toEqual({ subscription_groups: {} })
+    expect(
+        parseSubscriptionMapping(
+            JSON.stringify({ email_subscribe: 'marketing_opt_in', subscription_groups: { 'group-1': 'sms_opt_in' } })
+        )
+    ).toEqual({
+        email_subscribe: 'marketing_opt_in',
+        push_subscribe: undefined,
+        subscription_groups: { 'group-1': 'sms_opt_in' },
+    })
+
+    expect(() => parseSubscriptionMapping('{')).toThrow('Invalid subscription mapping, it should be a JSON object.')
+    expect(() => parseSubscriptionMapping({ push_subscribe: true })).toThrow(
+        'Invalid subscription mapping for push_subscribe, it should be a property name.'
+    )
+})
+
+test('getBrazeProfileProperties prefixes the allowlisted fields', () => {
+    const profile = {
+        external_id: 'user_1',
+        email: 'test@posthog',
+        total_revenue: 42,
+        custom_attributes: { plan: 'pro', seats: 3 },
+    }
+
+    expect(getBrazeProfileProperties(profile, ['external_id', 'total_revenue', 'push_subscribe'], 'braze_')).toEqual({
+        braze_total_revenue: 42,
+    })
+    expect(getBrazeProfileProperties(profile, ['email', 'custom_attributes'], 'crm_')).toEqual({
+        crm_email: 'test@posthog',
+        crm_plan: 'pro',
+        crm_seats: 3,
+    })
+})
+
+test('parseExportRoutes parses routes and their API keys', () => {
+    expect(parseExportRoutes(undefined, undefined)).toEqual([])
+
+    const [ios, acme] = parseExportRoutes(
+        JSON.stringify([
+            { name: 'ios', match: { $lib: 'posthog-ios', $os: 'iOS,iPadOS' }, app_id: 'ios-app' },
+            { name: 'acme', match: { brand: '/^acme/i' }, endpoint: 'EU-01' },
+        ]),
+        JSON.stringify({ acme: 'acme-api-key' })
+    )
+    expect(ios).toMatchObject({ name: 'ios', app_id: 'ios-app', api_key: undefined })
+    expect(ios.match.$lib('posthog-ios')).toBe(true)
+    expect(ios.match.$os('iPadOS')).toBe(true)
+    expect(ios.match.$os('Android')).toBe(false)
+    expect(acme).toMatchObject({ name: 'acme', endpoint: 'EU-01', api_key: 'acme-api-key' })
+    expect(acme.match.brand('ACME Europe')).toBe(true)
+
+    expect(() => parseExportRoutes('{}', undefined)).toThrow('Invalid export routes, they should be a JSON array.')
+    expect(() => parseExportRoutes([{ match: { brand: 'acme' } }], undefined)).toThrow(
+        'Invalid export route 0, it should have a name.'
+    )
+    expect(() => parseExportRoutes([{ name: 'acme', match: {} }], undefined)).toThrow(
+        'Invalid export route acme, its match should be an object of property patterns.'
+    )
+    expect(() => parseExportRoutes([{ name: 'acme', match: { brand: 'acme' }, app_id: 1 }], undefined)).toThrow(
+        'Invalid export route acme, its app_id should be a string.'
+    )
+    expect(() => parseExportRoutes([{ name: 'acme', match: { brand: 'acme' } }], { other: 'key' })).toThrow(
+        'Invalid export route API keys, there is no route named other.'
+    )
+})
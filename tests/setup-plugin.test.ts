@@ -0,0 +1,165 @@
+// The plugin checks its config in `setupPlugin`: the Braze REST endpoint has to be known (or a custom REST
+// URL given) and the API key present. With `Check API Key Permissions`, the permissions needed by the enabled
+// imports and by the export are probed, with the API keys of the export routes too, and the setup fails with
+// the list of missing permissions.
+
+import { rest } from 'msw'
+import { setupServer } from 'msw/node'
+
+import { BrazeMeta, setupPlugin } from '../index'
+
+const server = setupServer()
+
+beforeAll(() => {
+    console.error = jest.fn() // catch console errors
+    server.listen()
+})
+afterEach(() => server.resetHandlers())
+afterAll(() => server.close())
+
+const getMeta = (config: Partial<BrazeMeta['config']>): BrazeMeta =>
+    ({
+        config: {
+            brazeEndpoint: 'US-03',
+            apiKey: 'test-api-key',
+            ...config,
+        },
+        global: {},
+    } as unknown as BrazeMeta)
+
+test('setupPlugin fails on an unknown endpoint or a missing API key', async () => {
+    await expect(
+        setupPlugin(getMeta({ brazeEndpoint: 'US-99' as BrazeMeta['config']['brazeEndpoint'] }))
+    ).rejects.toThrow("Unknown Braze REST endpoint: US-99. Set the Braze REST URL for clusters that aren't listed.")
+    await expect(setupPlugin(getMeta({ brazeRestUrl: 'rest.braze.com' }))).rejects.toThrow(
+        'Invalid Braze REST URL: rest.braze.com, it should be an http(s) URL.'
+    )
+    await expect(setupPlugin(getMeta({ apiKey: '' }))).rejects.toThrow('Missing Braze API key.')
+})
+
+test('setupPlugin sends requests to the custom REST URL', async () => {
+    const listService = jest.fn()
+    server.use(
+        rest.get('http://localhost:4010/campaigns/:endpoint', (req, res, ctx) => {
+            listService(req.headers.get('Authorization'))
+            return res(ctx.status(200), ctx.json({ campaigns: [], message: 'success' }))
+        })
+    )
+
+    const meta = getMeta({
+        brazeEndpoint: '' as BrazeMeta['config']['brazeEndpoint'],
+        brazeRestUrl: 'http://localhost:4010/',
+        importCampaigns: 'Yes',
+        checkApiKeyPermissions: 'Yes',
+    })
+    await setupPlugin(meta)
+
+    expect(listService).toHaveBeenCalledWith('Bearer test-api-key')
+})
+
+test('setupPlugin reports the missing permissions of the enabled features', async () => {
+    const probedEndpoints: string[] = []
+    const forbidden = ['/campaigns/list', '/kpi/mau/data_series', '/users/track']
+    server.use(
+        rest.all('https://rest.iad-03.braze.com/*', (req, res, ctx) => {
+            probedEndpoints.push(`${req.method} ${req.url.pathname}`)
+            if (forbidden.includes(req.url.pathname)) {
+                return res(ctx.status(403), ctx.json({ message: 'Access Denied' }))
+            }
+            // NOTE: Braze rejects the probes without the parameters of the request
+            return req.method === 'POST' || !req.url.search
+                ? res(ctx.status(400), ctx.json({ message: 'Invalid request' }))
+                : res(ctx.status(200), ctx.json({ message: 'success' }))
+        })
+    )
+
+    const meta = getMeta({
+        importCampaigns: 'Yes',
+        importKPIs: 'Yes',
+        importSegments: 'No',
+        importBrazeProfiles: 'Yes',
+        eventsToExport: '*',
+        checkApiKeyPermissions: 'Yes',
+    })
+
+    await expect(setupPlugin(meta)).rejects.toThrow(
+        'Braze API key is missing the permissions campaigns.list, kpi.mau.data_series, users.track. Add them to the key, or turn off the imports and exports that need them.'
+    )
+    expect(probedEndpoints).toEqual([
+        'GET /campaigns/data_series',
+        'GET /campaigns/details',
+        'GET /campaigns/list',
+        'GET /kpi/dau/data_series',
+        'GET /kpi/mau/data_series',
+        'GET /kpi/new_users/data_series',
+        'GET /kpi/uninstalls/data_series',
+        'POST /users/export/ids',
+        'POST /users/track',
+    ])
+})
+
+test('setupPlugin does not log the expected errors of the permission probes', async () => {
+    server.use(
+        rest.all('https://rest.iad-03.braze.com/*', (req, res, ctx) =>
+            req.method === 'POST' || !req.url.search
+                ? res(ctx.status(400), ctx.json({ message: 'Invalid request' }))
+                : res(ctx.status(200), ctx.json({ message: 'success' }))
+        )
+    )
+    const error = jest.spyOn(console, 'error')
+
+    await setupPlugin(getMeta({ importCampaigns: 'Yes', eventsToExport: '*', checkApiKeyPermissions: 'Yes' }))
+
+    expect(error).not.toHaveBeenCalled()
+    error.mockRestore()
+})
+
+test('setupPlugin probes the export permissions with the API keys of the export routes', async () => {
+    const probes: string[] = []
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/:endpoint', (req, res, ctx) => {
+            probes.push(`${req.url.pathname} ${req.headers.get('Authorization')}`)
+            return req.headers.get('Authorization') === 'Bearer acme-api-key' && req.url.pathname === '/users/merge'
+                ? res(ctx.status(403), ctx.json({ message: 'Access Denied' }))
+                : res(ctx.status(400), ctx.json({ message: 'Invalid request' }))
+        })
+    )
+
+    const meta = getMeta({
+        eventsToExport: '*',
+        userAliasLabel: 'posthog_anonymous',
+        forwardPersonChanges: 'Yes',
+        exportRoutes: JSON.stringify([
+            { name: 'ios', match: { $lib: 'posthog-ios' }, app_id: 'ios-app-id' },
+            { name: 'acme', match: { company: 'acme' } },
+        ]),
+        exportRouteApiKeys: JSON.stringify({ acme: 'acme-api-key' }),
+        checkApiKeyPermissions: 'Yes',
+    })
+
+    await expect(setupPlugin(meta)).rejects.toThrow(
+        'Braze API key is missing the permissions users.merge (export route acme). Add them to the key, or turn off the imports and exports that need them.'
+    )
+    expect(probes).toEqual([
+        '/users/delete Bearer test-api-key',
+        '/users/identify Bearer test-api-key',
+        '/users/merge Bearer test-api-key',
+        '/users/track Bearer test-api-key',
+        '/users/delete Bearer acme-api-key',
+        '/users/identify Bearer acme-api-key',
+        '/users/merge Bearer acme-api-key',
+        '/users/track Bearer acme-api-key',
+    ])
+})
+
+test('setupPlugin fails on an invalid API key', async () => {
+    server.use(
+        rest.post('https://rest.iad-03.braze.com/users/track', (_, res, ctx) =>
+            res(ctx.status(401), ctx.json({ message: 'Invalid API key: test-api-key' }))
+        )
+    )
+
+    await expect(
+        setupPlugin(getMeta({ userPropertiesToExport: 'email', checkApiKeyPermissions: 'Yes' }))
+    ).rejects.toThrow('Invalid Braze API key, check that it belongs to the configured Braze REST endpoint.')
+})
@@ -0,0 +1,7 @@
+import dns from 'dns'
+
+// NOTE: msw intercepts requests after Node has already opened a socket for them, so every mocked Braze request
+// still starts a DNS lookup. Resolving them to localhost keeps a burst of slow lookups from holding Jest open.
+const lookup = dns.lookup
+dns.lookup = ((_hostname: string, ...args: unknown[]) =>
+    (lookup as (...args: unknown[]) => void)('localhost', ...args)) as typeof dns.lookup